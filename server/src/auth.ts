@@ -0,0 +1,122 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import * as crypto from 'crypto';
+
+import * as http from 'http';
+
+import * as url from 'url';
+
+
+/**
+ * The information about a client which is connecting, as
+ * given to the `verifyClient` option of a WebSocket server.
+ */
+export
+interface IClientInfo {
+  /**
+   * The `Origin` header sent by a browser, if any.
+   */
+  origin?: string;
+
+  /**
+   * The HTTP request which opens the WebSocket.
+   */
+  req: http.IncomingMessage;
+}
+
+
+/**
+ * Create a function which checks whether a client may connect,
+ * for use as the `verifyClient` option of a WebSocket server.
+ *
+ * @param options: the token and the origins which are allowed.
+ *
+ * @returns a function which tests the information about a client.
+ *
+ * #### Notes
+ * When a token is set, clients must pass it as the `token` query
+ * parameter of the WebSocket URL, as in `ws://localhost:8080/?token=...`.
+ *
+ * Browsers must also connect from one of the allowed origins, so
+ * that other web pages cannot reach the server through the browser
+ * of a user. Unless they are given, any origin is allowed when a
+ * token is set, and only pages served from this machine otherwise.
+ * Clients which are not browsers send no origin.
+ */
+export
+function createVerifier(options: IVerifyOptions = {}): (info: IClientInfo) => boolean {
+  let token = options.token || '';
+  let origins = options.origins || null;
+  return (info: IClientInfo) => {
+    if (token && !Private.sameToken(Private.queryToken(info.req), token)) {
+      return false;
+    }
+    if (!info.origin) {
+      return true;
+    }
+    if (origins) {
+      return origins.indexOf(info.origin) !== -1;
+    }
+    return !!token || Private.isLocal(info.origin);
+  };
+}
+
+
+/**
+ * Options for `createVerifier`.
+ */
+export
+interface IVerifyOptions {
+  /**
+   * The token which clients must pass, if any.
+   */
+  token?: string;
+
+  /**
+   * The origins of the web pages which may connect,
+   * such as `http://localhost:8888`.
+   */
+  origins?: string[];
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The host names of this machine.
+   */
+  const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+  /**
+   * Get the token passed in the URL of a request.
+   */
+  export
+  function queryToken(request: http.IncomingMessage): string {
+    let query = url.parse(request.url || '', true).query || {};
+    let value = query['token'];
+    return typeof value === 'string' ? value : '';
+  }
+
+  /**
+   * Compare tokens in constant time.
+   */
+  export
+  function sameToken(value: string, token: string): boolean {
+    let a = Buffer.from(value);
+    let b = Buffer.from(token);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  /**
+   * Test whether an origin is a page served from this machine.
+   */
+  export
+  function isLocal(origin: string): boolean {
+    let hostname = url.parse(origin).hostname || '';
+    return LOCAL_HOSTS.indexOf(hostname) !== -1 ||
+      LOCAL_HOSTS.indexOf(`[${hostname}]`) !== -1;
+  }
+}
@@ -0,0 +1,222 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * A range of a string which was last changed by the same author.
+ */
+export
+interface IRun {
+  /**
+   * The user id of the author, or `null` if the text
+   * was written by the server or its author is unknown.
+   */
+  author: string | null;
+
+  /**
+   * The number of characters in the range.
+   */
+  length: number;
+}
+
+
+/**
+ * The authors of the strings in a ShareDB document, as the runs of
+ * each string from its start, under the JSON of its json0 path.
+ */
+export
+type Blame = { [path: string]: IRun[] };
+
+
+/**
+ * Apply an op from the op log of a document to its blame.
+ *
+ * @param blame: the blame of the document, which is updated in place.
+ *
+ * @param op: the op, which creates, edits or deletes the document.
+ *
+ * @param author: the user id of the author of the op, if known.
+ *
+ * #### Notes
+ * Inserted text is attributed to the author of the op, and so are
+ * the strings of inserted values. Strings which are replaced or
+ * removed lose their blame, and the blame under a list follows its
+ * items when they are inserted, removed or moved. The root keys
+ * starting with `$`, which are used for requests, are skipped.
+ */
+export
+function applyOp(blame: Blame, op: any, author: string | null): void {
+  if (op.create || op.del) {
+    for (let key of Object.keys(blame)) {
+      delete blame[key];
+    }
+    if (op.create) {
+      Private.insert(blame, [], op.create.data, author);
+    }
+    return;
+  }
+  for (let component of op.op || []) {
+    let key = component.p[0];
+    if (typeof key !== 'string' || key[0] !== '$') {
+      Private.apply(blame, component, author);
+    }
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Apply a json0 op component to a blame.
+   */
+  export
+  function apply(blame: Blame, component: any, author: string | null): void {
+    let path: Array<string | number> = component.p;
+    let parent = path.slice(0, -1);
+    let index = path[path.length - 1];
+    if ('si' in component || 'sd' in component) {
+      let key = JSON.stringify(parent);
+      let runs = blame[key] || [];
+      let length = 'si' in component ? component.si.length : 0;
+      let removed = 'sd' in component ? component.sd.length : 0;
+      blame[key] = edit(runs, index as number, removed, length, author);
+      return;
+    }
+    if ('lm' in component) {
+      let from = index as number;
+      let to: number = component.lm;
+      rekey(blame, parent, i => {
+        if (i === from) {
+          return to;
+        }
+        if (from < to && i > from && i <= to) {
+          return i - 1;
+        }
+        if (from > to && i >= to && i < from) {
+          return i + 1;
+        }
+        return i;
+      });
+      return;
+    }
+    if ('ld' in component || 'od' in component || 'oi' in component) {
+      remove(blame, path);
+    }
+    if ('ld' in component) {
+      rekey(blame, parent, i => i > index ? i - 1 : i);
+    }
+    if ('li' in component) {
+      rekey(blame, parent, i => i >= index ? i + 1 : i);
+      insert(blame, path, component.li, author);
+    }
+    if ('oi' in component) {
+      insert(blame, path, component.oi, author);
+    }
+  }
+
+  /**
+   * Attribute the strings of an inserted value to an author.
+   */
+  export
+  function insert(blame: Blame, path: Array<string | number>, value: any, author: string | null): void {
+    if (typeof value === 'string') {
+      blame[JSON.stringify(path)] = value ? [{ author, length: value.length }] : [];
+      return;
+    }
+    if (typeof value !== 'object' || value === null) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => { insert(blame, [...path, i], item, author); });
+      return;
+    }
+    for (let key of Object.keys(value)) {
+      if (path.length || key[0] !== '$') {
+        insert(blame, [...path, key], value[key], author);
+      }
+    }
+  }
+
+  /**
+   * Replace a range of the runs of a string with the inserted text.
+   */
+  function edit(runs: IRun[], offset: number, removed: number, inserted: number, author: string | null): IRun[] {
+    let result: IRun[] = [];
+    let position = 0;
+    let push = (run: IRun) => {
+      let last = result[result.length - 1];
+      if (run.length <= 0) {
+        return;
+      } else if (last && last.author === run.author) {
+        last.length += run.length;
+      } else {
+        result.push({ author: run.author, length: run.length });
+      }
+    };
+    for (let run of runs) {
+      let end = position + run.length;
+      // The part of the run before the edit.
+      push({ author: run.author, length: Math.min(end, offset) - position });
+      if (end > offset && position <= offset) {
+        push({ author, length: inserted });
+        inserted = 0;
+      }
+      // The part of the run after the removed range.
+      push({ author: run.author, length: end - Math.max(position, offset + removed) });
+      position = end;
+    }
+    if (inserted) {
+      // The text before the offset is unknown.
+      push({ author: null, length: offset - position });
+      push({ author, length: inserted });
+    }
+    return result;
+  }
+
+  /**
+   * Remove the blame at or below a path.
+   */
+  function remove(blame: Blame, path: Array<string | number>): void {
+    for (let key of Object.keys(blame)) {
+      if (isSubpath(path, JSON.parse(key))) {
+        delete blame[key];
+      }
+    }
+  }
+
+  /**
+   * Move the blame below the items of a list to new indices.
+   */
+  function rekey(blame: Blame, list: Array<string | number>, map: (index: number) => number): void {
+    let moved: Blame = {};
+    for (let key of Object.keys(blame)) {
+      let path: Array<string | number> = JSON.parse(key);
+      let index = path[list.length];
+      if (path.length > list.length && typeof index === 'number' && isSubpath(list, path)) {
+        path[list.length] = map(index);
+        moved[JSON.stringify(path)] = blame[key];
+        delete blame[key];
+      }
+    }
+    for (let key of Object.keys(moved)) {
+      blame[key] = moved[key];
+    }
+  }
+
+  /**
+   * Test whether a json0 path is equal to or lies below a base path.
+   */
+  function isSubpath(base: Array<string | number>, path: Array<string | number>): boolean {
+    if (path.length < base.length) {
+      return false;
+    }
+    for (let i = 0; i < base.length; i++) {
+      if (base[i] !== path[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
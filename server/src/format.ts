@@ -0,0 +1,183 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import * as crypto from 'crypto';
+
+
+/**
+ * The data of a ShareDB document.
+ */
+export
+type Snapshot = { [key: string]: any };
+
+
+/**
+ * Test whether a file is a notebook.
+ *
+ * @param path: the path of the file.
+ */
+export
+function isNotebook(path: string): boolean {
+  return /\.ipynb$/i.test(path);
+}
+
+/**
+ * Convert the text of a file into the data of a ShareDB document,
+ * laid out the way the JupyterLab models store it in a `ShareModelDB`.
+ *
+ * @param path: the path of the file, which determines its format.
+ *
+ * @param content: the text of the file.
+ *
+ * @param previous: the data of the document before the file was
+ *   reloaded, if any, whose cell ids are kept for the cells at the
+ *   same position with the same type.
+ *
+ * @returns the document data. A text file is stored as its `value`
+ *   string. A notebook has a `cellOrder` list of cell ids, and the
+ *   models of the cells in the `cells` object under their ids.
+ */
+export
+function toSnapshot(path: string, content: string, previous?: Snapshot): Snapshot {
+  if (!isNotebook(path)) {
+    return { value: content };
+  }
+  let notebook = content.trim() ? JSON.parse(content) : {};
+  let cellOrder: string[] = [];
+  let cells: Snapshot = {};
+  let previousOrder = previous && Array.isArray(previous.cellOrder) ? previous.cellOrder : [];
+  let previousCells = previous && previous.cells || {};
+  (notebook.cells || []).forEach((cell: any, index: number) => {
+    let id = previousOrder[index];
+    let type = cell.cell_type || 'code';
+    if (!previous) {
+      id = `cell-${index}`;
+    } else if (typeof id !== 'string' || !previousCells[id] ||
+               previousCells[id].type !== type || cells[id]) {
+      // The documents of separate views outlive their cells,
+      // so the ids of new cells must never have been used.
+      id = `cell-${crypto.randomBytes(8).toString('hex')}`;
+    }
+    let model: Snapshot = {
+      type,
+      value: Private.joinSource(cell.source),
+      metadata: cell.metadata || {}
+    };
+    if (model.type === 'code') {
+      model.executionCount = cell.execution_count === undefined ?
+        null : cell.execution_count;
+      model.outputs = cell.outputs || [];
+    }
+    if (cell.attachments) {
+      model.attachments = cell.attachments;
+    }
+    cellOrder.push(id);
+    cells[id] = model;
+  });
+  return {
+    cellOrder,
+    cells,
+    metadata: notebook.metadata || {},
+    nbformat: notebook.nbformat || Private.NBFORMAT,
+    nbformat_minor: notebook.nbformat_minor || Private.NBFORMAT_MINOR
+  };
+}
+
+/**
+ * Convert the data of a ShareDB document into the text of a file.
+ *
+ * @param path: the path of the file, which determines its format.
+ *
+ * @param data: the document data, in the layout of `toSnapshot`.
+ *
+ * @returns the text of the file. Notebooks are written like Jupyter
+ *   writes them, with sorted keys and the sources split into lines.
+ */
+export
+function fromSnapshot(path: string, data: Snapshot): string {
+  if (!isNotebook(path)) {
+    return typeof data.value === 'string' ? data.value : '';
+  }
+  let models = data.cells || {};
+  let cells = (data.cellOrder || []).filter((id: string) => {
+    return models[id] !== undefined;
+  }).map((id: string) => {
+    let model = models[id];
+    let cell: Snapshot = {
+      cell_type: model.type || 'code',
+      metadata: model.metadata || {},
+      source: Private.splitSource(model.value || '')
+    };
+    if (cell.cell_type === 'code') {
+      cell.execution_count = model.executionCount === undefined ?
+        null : model.executionCount;
+      cell.outputs = Array.isArray(model.outputs) ? model.outputs : [];
+    }
+    if (model.attachments) {
+      cell.attachments = model.attachments;
+    }
+    return cell;
+  });
+  let notebook = {
+    cells,
+    metadata: data.metadata || {},
+    nbformat: data.nbformat || Private.NBFORMAT,
+    nbformat_minor: data.nbformat_minor || Private.NBFORMAT_MINOR
+  };
+  return JSON.stringify(Private.sortKeys(notebook), null, 1) + '\n';
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The major version of the notebook format which is written.
+   */
+  export
+  const NBFORMAT = 4;
+
+  /**
+   * The minor version of the notebook format which is written.
+   */
+  export
+  const NBFORMAT_MINOR = 2;
+
+  /**
+   * Join the source of a cell, which may be split into lines.
+   */
+  export
+  function joinSource(source: string | string[] | undefined): string {
+    if (Array.isArray(source)) {
+      return source.join('');
+    }
+    return source || '';
+  }
+
+  /**
+   * Split the source of a cell into lines, keeping the line endings.
+   */
+  export
+  function splitSource(source: string): string[] {
+    return source.match(/[^\n]*\n|[^\n]+$/g) || [];
+  }
+
+  /**
+   * Copy a JSON value with the keys of its objects in sorted order.
+   */
+  export
+  function sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(sortKeys);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    let sorted: Snapshot = {};
+    for (let key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys(value[key]);
+    }
+    return sorted;
+  }
+}
@@ -0,0 +1,8 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+export * from './auth';
+export * from './blame';
+export * from './format';
+export * from './server';
+export * from './store';
@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  createVerifier
+} from './auth';
+
+import {
+  ShareServer
+} from './server';
+
+import {
+  ContentsStore, DirectoryStore, IFileStore
+} from './store';
+
+declare let require: any;
+let WebSocket = require('ws');
+let WebSocketJSONStream = require('websocket-json-stream');
+
+
+/**
+ * The usage of the command.
+ */
+const USAGE = `Usage: jupyterlab-sharedb-server [options]
+
+Serve the documents of the Share drive over a WebSocket, and save them
+to a directory or to a Jupyter server.
+
+Options:
+  --port <port>              the port to listen on (default: 8080)
+  --host <host>              the interface to listen on (default: 127.0.0.1)
+  --access-token <token>     a token which clients must pass as the token
+                             query parameter of the WebSocket URL
+  --allow-origin <origins>   the comma-separated origins of the pages which
+                             may connect (default: any with an access token,
+                             and pages served from localhost otherwise)
+  --root <directory>         save the files to a directory
+  --contents-url <url>       save the files through the contents API of
+                             the Jupyter server at this URL
+  --token <token>            the token of the Jupyter server
+  --collection <name>        the ShareDB collection (default: jupyterlab)
+  --save-interval <ms>       how often to save changed files (default: 10000)
+`;
+
+
+/**
+ * Parse the command line arguments into a map of options.
+ */
+function parseArgs(args: string[]): { [name: string]: string } {
+  let options: { [name: string]: string } = {};
+  for (let i = 0; i < args.length; i++) {
+    let match = /^--([\w-]+)(?:=(.*))?$/.exec(args[i]);
+    if (!match) {
+      throw Error(`Unexpected argument: ${args[i]}`);
+    }
+    options[match[1]] = match[2] !== undefined ? match[2] : args[++i];
+  }
+  return options;
+}
+
+
+/**
+ * Start the server.
+ */
+function main(): void {
+  let options: { [name: string]: string };
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exit(2);
+    return;
+  }
+  if (options['help'] !== undefined || (!options['root'] && !options['contents-url'])) {
+    console.log(USAGE);
+    process.exit(options['help'] !== undefined ? 0 : 2);
+    return;
+  }
+
+  let store: IFileStore;
+  if (options['contents-url']) {
+    store = new ContentsStore({
+      baseUrl: options['contents-url'],
+      token: options['token']
+    });
+  } else {
+    store = new DirectoryStore(options['root']);
+  }
+  let server = new ShareServer({
+    store,
+    collection: options['collection'],
+    saveInterval: options['save-interval'] ? Number(options['save-interval']) : undefined
+  });
+
+  let port = Number(options['port']) || 8080;
+  let host = options['host'] || '127.0.0.1';
+  let origins = options['allow-origin'];
+  let verifyClient = createVerifier({
+    token: options['access-token'],
+    origins: origins ? origins.split(',').map(origin => origin.trim()) : undefined
+  });
+  let wss = new WebSocket.Server({ port, host, verifyClient });
+  wss.on('connection', (ws: any, request: any) => {
+    server.listen(new WebSocketJSONStream(ws), request);
+  });
+  console.log(`Serving ShareDB documents on ws://${host}:${port}`);
+
+  // Save the changed documents before exiting.
+  let shutdown = () => {
+    wss.close();
+    server.close().then(() => {
+      process.exit(0);
+    }, err => {
+      console.error(err);
+      process.exit(1);
+    });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+
+main();
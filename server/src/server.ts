@@ -0,0 +1,988 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  IReference, diff, isReference
+} from '../../src/diff';
+
+import {
+  Blame, applyOp
+} from './blame';
+
+import {
+  Snapshot, fromSnapshot, toSnapshot
+} from './format';
+
+import {
+  IFileStore
+} from './store';
+
+declare let require: any;
+let ShareDB = require('sharedb');
+
+
+/**
+ * A ShareDB server for the documents of the `ShareDrive`,
+ * which are loaded from and saved to a file store.
+ *
+ * #### Notes
+ * The id of a document is the path of its file in the store, as
+ * computed by `ShareDrive.documentId`, which escapes `%` and `#`
+ * as `%25` and `%23`. When a client first subscribes
+ * to a document which does not exist yet, it is created from its file.
+ * The documents which have changed are written back to their files
+ * every `saveInterval` milliseconds, and when the server is closed,
+ * and the documents of missing files are collected at the same interval.
+ *
+ * The documents of separate views, whose ids are the id of their
+ * base document followed by `#` and the path of the view, are created
+ * from the data at that path in the base document. When the base
+ * document is saved, the references to them are replaced with their data.
+ *
+ * Clients request a save of a document by incrementing the `requests`
+ * of its `$save` key, and the server records the version of the
+ * document which it has written as the `version` of that key. Likewise,
+ * a client requests a reload of the document from its file through the
+ * `$reload` key, which the server applies to the document as ops. The
+ * server sets the `$server` key of the documents it serves, so that
+ * clients only send requests which will be handled.
+ *
+ * When the file of a document is renamed or deleted, the client leaves
+ * the document as a tombstone with a `$moved` key. Tombstones are never
+ * written, and are replaced when a new file is opened at their path.
+ * The documents whose files no longer exist are deleted by `collect`.
+ *
+ * Each change to a document or its separate views is recorded in the
+ * history document of its file, whose id is the id of the document
+ * followed by `#$history`. The entries name the collaborator who made
+ * the change, so that clients can browse the snapshots of the document
+ * over time. The consecutive ops of a collaborator on a document within
+ * `historyWindow` milliseconds are recorded as a single entry, with the
+ * version and time of the last of them.
+ *
+ * Clients tag their ops with their collaborator and the time of the
+ * change, which are kept as the `author` and `time` metadata of the
+ * ops in the op log. Ops which are not tagged are attributed to the
+ * collaborator published by their client through presence, which is
+ * forgotten once the client disconnects.
+ *
+ * The op log is also replayed into the blame document of the file, whose
+ * id is the id of the document followed by `#$blame`. It holds the user
+ * ids of the authors who last changed each range of the strings of the
+ * document and its separate views, as computed by `applyOp`.
+ */
+export
+class ShareServer {
+  /**
+   * Construct a new server.
+   */
+  constructor(options: ShareServer.IOptions) {
+    this.store = options.store;
+    this.collection = options.collection || 'jupyterlab';
+    this.saveInterval = options.saveInterval === undefined ?
+      Private.SAVE_INTERVAL : options.saveInterval;
+    this.historyWindow = options.historyWindow === undefined ?
+      Private.HISTORY_WINDOW : options.historyWindow;
+    this.backend = options.backend || new ShareDB({ presence: true });
+    this._connection = this.backend.connect();
+    this.backend.use('connect', this._onConnect);
+    this.backend.use('receive', this._onReceive);
+    this.backend.use('submit', this._onSubmit);
+    this.backend.use('afterWrite', this._onAfterWrite);
+    if (this.saveInterval > 0) {
+      this._timer = setInterval(() => {
+        this.save().then(() => this.collect()).catch(err => { console.error(err); });
+      }, this.saveInterval);
+    }
+  }
+
+  /**
+   * The ShareDB backend.
+   */
+  readonly backend: any;
+
+  /**
+   * The store holding the files of the documents.
+   */
+  readonly store: IFileStore;
+
+  /**
+   * The ShareDB collection holding the documents.
+   */
+  readonly collection: string;
+
+  /**
+   * The interval in milliseconds at which changed documents
+   * are saved, or zero if they are only saved by `save`.
+   */
+  readonly saveInterval: number;
+
+  /**
+   * The time in milliseconds within which the consecutive ops of a
+   * collaborator on a document are recorded as a single change.
+   */
+  readonly historyWindow: number;
+
+  /**
+   * Serve a client connected through a stream.
+   *
+   * @param stream: a duplex stream of the JSON messages of the client,
+   *   such as a `WebSocketJSONStream`.
+   *
+   * @param request: the request which opened the connection, if any.
+   */
+  listen(stream: any, request?: any): void {
+    this.backend.listen(stream, request);
+  }
+
+  /**
+   * Create a document from its file, if it does not exist yet.
+   *
+   * @param documentId: the id of the document.
+   *
+   * @returns a promise resolved once the document exists, or once
+   *   it is known that there is no file to create it from.
+   */
+  load(documentId: string): Promise<void> {
+    let loading = this._loading[documentId];
+    if (!loading) {
+      loading = this._loading[documentId] = this._create(documentId);
+      loading.catch(() => { delete this._loading[documentId]; });
+    }
+    return loading;
+  }
+
+  /**
+   * Write the documents which have changed to their files.
+   *
+   * @returns a promise resolved once the files have been written.
+   */
+  save(): Promise<void> {
+    return this._queue(() => {
+      let ids = Object.keys(this._dirty);
+      this._dirty = {};
+      return Promise.all(ids.map(id => {
+        return this._write(id).catch(err => {
+          this._dirty[id] = true;
+          throw err;
+        });
+      })).then(() => undefined);
+    });
+  }
+
+  /**
+   * Replace the contents of a document with the contents of its file.
+   *
+   * @param documentId: the id of the document.
+   *
+   * @returns a promise resolved once the changes have been submitted.
+   *
+   * #### Notes
+   * The changes are submitted as ops, so they reach every client
+   * which has the document open. Pending changes of the document are
+   * not saved, since the file is meant to replace them.
+   */
+  reload(documentId: string): Promise<void> {
+    delete this._dirty[documentId];
+    return this._queue(() => {
+      let doc = this._connection.get(this.collection, documentId);
+      let path = Private.filePath(documentId);
+      return Promise.all([
+        this.store.read(path), this._resolve(documentId)
+      ]).then(([content, previous]) => {
+        if (content === null) {
+          throw Error(`There is no file to reload the document from: ${path}`);
+        }
+        let data = toSnapshot(path, content, previous);
+        return this._update(documentId, data);
+      }).then(() => {
+        return Private.stamp(doc, Private.RELOAD_KEY, doc.version);
+      });
+    });
+  }
+
+  /**
+   * Delete the documents whose files no longer exist,
+   * along with the documents of their separate views.
+   *
+   * @returns a promise resolved once the documents have been deleted.
+   *
+   * #### Notes
+   * Only the documents which clients have used since the server
+   * started are considered.
+   */
+  collect(): Promise<void> {
+    return this._queue(() => {
+      let ids = Object.keys(this._known).filter(id => Private.baseId(id) === id);
+      return Promise.all(ids.map(id => {
+        return this.store.read(Private.filePath(id)).then(content => {
+          if (content !== null) {
+            return undefined;
+          }
+          let views = Object.keys(this._known).filter(view => view.indexOf(id + '#') === 0);
+          return Promise.all([id, ...views].map(documentId => {
+            delete this._known[documentId];
+            delete this._loading[documentId];
+            delete this._dirty[documentId];
+            return Private.remove(this._connection.get(this.collection, documentId));
+          }));
+        });
+      })).then(() => undefined);
+    });
+  }
+
+  /**
+   * Save the documents which have changed, and stop serving.
+   */
+  close(): Promise<void> {
+    if (this._timer !== null) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+    return this.save().then(() => {
+      this._connection.close();
+      return new Promise<void>(resolve => {
+        this.backend.close(() => { resolve(void 0); });
+      });
+    });
+  }
+
+  /**
+   * Run a task once the previous saves and reloads have finished.
+   */
+  private _queue(task: () => Promise<void>): Promise<void> {
+    this._saving = this._saving.catch(() => undefined).then(task);
+    return this._saving;
+  }
+
+  /**
+   * Create a document from its file, if it does not exist yet.
+   */
+  private _create(documentId: string): Promise<void> {
+    let doc = this._connection.get(this.collection, documentId);
+    return Private.fetch(doc).then(() => {
+      if (doc.type && !Private.isTombstone(doc.data)) {
+        return this._mark(documentId);
+      }
+      return this._initialData(documentId).then(data => {
+        if (data === null || (doc.type && !Private.isTombstone(doc.data))) {
+          return undefined;
+        }
+        if (Private.baseId(documentId) === documentId) {
+          data[Private.SERVER_KEY] = true;
+        }
+        // A new file at the path of a moved document replaces it.
+        let removed = doc.type ? Private.remove(doc) : Promise.resolve(void 0);
+        return removed.then(() => Private.create(doc, data));
+      });
+    });
+  }
+
+  /**
+   * Mark a document as served by this server, if it is not yet.
+   */
+  private _mark(documentId: string): Promise<void> {
+    let doc = this._connection.get(this.collection, documentId);
+    return Private.fetch(doc).then(() => {
+      if (Private.baseId(documentId) !== documentId || !doc.type || Private.isTombstone(doc.data) ||
+          doc.data[Private.SERVER_KEY] !== undefined) {
+        return undefined;
+      }
+      return Private.submit(doc, { p: [Private.SERVER_KEY], oi: true });
+    });
+  }
+
+  /**
+   * Get the data to create a document with, or `null`
+   * if there is nothing to create it from.
+   */
+  private _initialData(documentId: string): Promise<Snapshot | null> {
+    let baseId = Private.baseId(documentId);
+    if (baseId === documentId) {
+      let filePath = Private.filePath(documentId);
+      return this.store.read(filePath).then(content => {
+        return content === null ? null : toSnapshot(filePath, content);
+      });
+    }
+    let path = Private.parsePath(documentId.slice(baseId.length + 1));
+    return this.load(baseId).then(() => {
+      let base = this._connection.get(this.collection, baseId);
+      return Private.fetch(base).then(() => {
+        let data = Private.get(base.data, path);
+        if (data === undefined || isReference(data) || Private.isTombstone(base.data)) {
+          return null;
+        }
+        return JSON.parse(JSON.stringify(data));
+      });
+    });
+  }
+
+  /**
+   * Write a document to its file, and record the version which was
+   * written for the clients which have requested a save.
+   */
+  private _write(documentId: string): Promise<void> {
+    let doc = this._connection.get(this.collection, documentId);
+    return Private.fetch(doc).then(() => {
+      let version: number = doc.version;
+      if (Private.isTombstone(doc.data)) {
+        return undefined;
+      }
+      return this._resolveReferences(documentId, doc.data).then(data => {
+        if (data === undefined) {
+          return undefined;
+        }
+        let path = Private.filePath(documentId);
+        return this.store.write(path, fromSnapshot(path, data)).then(() => {
+          return Private.stamp(doc, Private.SAVE_KEY, version);
+        });
+      });
+    });
+  }
+
+  /**
+   * Submit the ops which replace the data of a document,
+   * including the documents of its separate views.
+   */
+  private _update(documentId: string, data: Snapshot): Promise<void> {
+    let doc = this._connection.get(this.collection, documentId);
+    return Private.fetch(doc).then(() => {
+      let references: IReference[] = [];
+      let ops = diff(doc.data, data, [], { documentId, references });
+      return Promise.all([
+        ops.length ? Private.submit(doc, ops) : Promise.resolve(void 0),
+        ...references.map(reference => {
+          return this._update(reference.documentId, reference.value);
+        })
+      ]);
+    }).then(() => undefined);
+  }
+
+  /**
+   * Get the data of a document, with the references to the
+   * documents of separate views replaced by their data.
+   */
+  private _resolve(documentId: string): Promise<any> {
+    let doc = this._connection.get(this.collection, documentId);
+    return Private.fetch(doc).then(() => {
+      return this._resolveReferences(documentId, doc.data);
+    });
+  }
+
+  /**
+   * Replace the references to the documents of separate views in a value.
+   */
+  private _resolveReferences(documentId: string, value: any): Promise<any> {
+    if (typeof value !== 'object' || value === null) {
+      return Promise.resolve(value);
+    }
+    if (isReference(value, documentId)) {
+      return this._resolve(value.documentId);
+    }
+    let copy: any = Array.isArray(value) ? [] : {};
+    return Promise.all(Object.keys(value).map(key => {
+      return this._resolveReferences(documentId, value[key]).then(resolved => {
+        copy[key] = resolved;
+      });
+    })).then(() => copy);
+  }
+
+  /**
+   * Forget the collaborator of a client once it disconnects.
+   */
+  private _onConnect = (context: any, next: (err?: any) => void) => {
+    let agent = context.agent;
+    let forget = () => {
+      // Keep the collaborator until the ops of the client are recorded.
+      let recording = Object.keys(this._recording).map(id => this._recording[id]);
+      Promise.all(recording).then(() => {
+        delete this._authors[agent.clientId];
+      });
+    };
+    agent.stream.on('end', forget);
+    agent.stream.on('close', forget);
+    next();
+  }
+
+  /**
+   * Create documents from their files when clients first load them.
+   */
+  private _onReceive = (context: any, next: (err?: any) => void) => {
+    let message = context.data;
+    if (message && message.a === 'p' && message.p && message.p.collaborator) {
+      let { userId, displayName, color } = message.p.collaborator;
+      this._authors[context.agent.clientId] = { userId, displayName, color };
+    }
+    if (context.agent === this._connection.agent || !message ||
+        (message.a !== 's' && message.a !== 'f') || message.c !== this.collection) {
+      next();
+      return;
+    }
+    this._known[message.d] = true;
+    this.load(message.d).then(() => { next(); }, next);
+  }
+
+  /**
+   * Keep the author and time with which clients tag their ops.
+   */
+  private _onSubmit = (context: any, next: (err?: any) => void) => {
+    let extra = context.extra;
+    let meta = context.op && context.op.m;
+    if (extra && meta && context.agent !== this._connection.agent) {
+      let author = Private.toCollaborator(extra.author);
+      if (author) {
+        meta.author = author;
+      }
+      if (typeof extra.time === 'number') {
+        meta.time = extra.time;
+      }
+    }
+    next();
+  }
+
+  /**
+   * Get the collaborator who made an op, or `null`
+   * if it was made by the server or is unknown.
+   */
+  private _author(op: any): Private.ICollaborator | null {
+    let author = op.m && Private.toCollaborator(op.m.author);
+    return author || op.src && this._authors[op.src] || null;
+  }
+
+  /**
+   * Record a change in the history document of its file.
+   */
+  private _record(context: any): void {
+    let id: string = context.id;
+    let op = context.op;
+    if (!op || op.del || Private.isLog(id) ||
+        (op.op && op.op.every(Private.isRequestComponent))) {
+      return;
+    }
+    // ShareDB strips the metadata of ops once they are committed,
+    // so take the tags of the client from the request.
+    let extra = context.agent !== this._connection.agent && context.extra;
+    let entry: Private.IHistoryEntry = {
+      documentId: id,
+      version: op.v,
+      time: context.start || Date.now(),
+      author: extra && Private.toCollaborator(extra.author) || this._author(op)
+    };
+    let historyId = `${Private.baseId(id)}#${Private.HISTORY_KEY}`;
+    let doc = this._connection.get(this.collection, historyId);
+    let previous = this._recording[historyId] || Promise.resolve(void 0);
+    this._recording[historyId] = previous.then(() => {
+      return doc.type ? undefined : Private.fetch(doc);
+    }).then(() => {
+      if (!doc.type) {
+        this._known[historyId] = true;
+        return Private.create(doc, { entries: [entry] });
+      }
+      let entries: Private.IHistoryEntry[] = doc.data.entries;
+      let last = entries[entries.length - 1];
+      if (last && Private.continues(last, entry, this.historyWindow)) {
+        return Private.submit(doc, diff(last, entry, ['entries', entries.length - 1]));
+      }
+      return Private.submit(doc, {
+        p: ['entries', entries.length], li: entry
+      });
+    }).catch(err => { console.error(err); });
+  }
+
+  /**
+   * Update the blame of a changed document in the blame document of its file.
+   */
+  private _blame(context: any): void {
+    let id: string = context.id;
+    if (Private.isLog(id)) {
+      return;
+    }
+    let blameId = `${Private.baseId(id)}#${Private.BLAME_KEY}`;
+    let doc = this._connection.get(this.collection, blameId);
+    let state = this._blames[id] || (this._blames[id] = { version: 0, blame: {} });
+    let authors: { [userId: string]: Private.ICollaborator } = {};
+    let previous = this._recording[blameId] || Promise.resolve(void 0);
+    this._recording[blameId] = previous.then(() => {
+      return Private.getOps(this.backend.db, this.collection, id, state.version);
+    }).then(ops => {
+      for (let op of ops) {
+        let author = this._author(op);
+        if (author) {
+          authors[author.userId] = author;
+        }
+        applyOp(state.blame, op, author ? author.userId : null);
+      }
+      state.version += ops.length;
+      return doc.type ? undefined : Private.fetch(doc);
+    }).then(() => {
+      // Copy the blame, since the document keeps the values of its ops.
+      let blame: Blame = JSON.parse(JSON.stringify(state.blame));
+      if (!doc.type) {
+        this._known[blameId] = true;
+        return Private.create(doc, { authors, documents: { [id]: blame } });
+      }
+      let data = doc.data;
+      let nextAuthors = { ...data.authors, ...authors };
+      let ops = [
+        ...diff(data.authors, nextAuthors, ['authors']),
+        ...diff(data.documents[id], blame, ['documents', id])
+      ];
+      return ops.length ? Private.submit(doc, ops) : undefined;
+    }).catch(err => { console.error(err); });
+  }
+
+  /**
+   * Keep track of the files whose documents have changed,
+   * and handle the save and reload requests of clients.
+   */
+  private _onAfterWrite = (context: any, next: (err?: any) => void) => {
+    if (context.collection === this.collection) {
+      this._record(context);
+      this._blame(context);
+    }
+    if (context.agent === this._connection.agent || context.collection !== this.collection) {
+      next();
+      return;
+    }
+    let id: string = context.id;
+    this._known[id] = true;
+    this._dirty[Private.baseId(id)] = true;
+    let op = context.op && context.op.op || [];
+    if (context.op && context.op.create) {
+      // Mark the documents which clients create without a file.
+      this._mark(id).catch(err => { console.error(err); });
+    }
+    if (Private.isRequest(op, Private.MOVED_KEY)) {
+      // Replace the tombstone if a new file is opened at its path.
+      delete this._loading[id];
+    }
+    if (Private.baseId(id) === id && Private.isRequest(op, Private.RELOAD_KEY)) {
+      this.reload(id).catch(err => { console.error(err); });
+    }
+    if (Private.baseId(id) === id && Private.isRequest(op, Private.SAVE_KEY)) {
+      this.save().catch(err => { console.error(err); });
+    }
+    next();
+  }
+
+  private _connection: any;
+  private _loading: { [documentId: string]: Promise<void> } = Object.create(null);
+  private _dirty: { [path: string]: boolean } = Object.create(null);
+  private _known: { [documentId: string]: boolean } = Object.create(null);
+  private _authors: { [clientId: string]: Private.ICollaborator } = Object.create(null);
+  private _recording: { [documentId: string]: Promise<void> } = Object.create(null);
+  private _blames: { [documentId: string]: Private.IBlameState } = Object.create(null);
+  private _saving: Promise<void> = Promise.resolve(void 0);
+  private _timer: any = null;
+}
+
+
+/**
+ * A namespace for `ShareServer` statics.
+ */
+export
+namespace ShareServer {
+  /**
+   * Options for creating a `ShareServer`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The store holding the files of the documents.
+     */
+    store: IFileStore;
+
+    /**
+     * The ShareDB collection holding the documents,
+     * which must match the `collection` setting of the
+     * extension. Defaults to `'jupyterlab'`.
+     */
+    collection?: string;
+
+    /**
+     * The interval in milliseconds at which changed documents are
+     * saved, or zero to only save them when `save` is called.
+     * Defaults to ten seconds.
+     */
+    saveInterval?: number;
+
+    /**
+     * The time in milliseconds within which the consecutive ops of a
+     * collaborator on a document are recorded as a single change in
+     * its history, or zero to record each op. Defaults to one minute.
+     */
+    historyWindow?: number;
+
+    /**
+     * The ShareDB backend to serve, for using a database other than
+     * the in-memory one. Defaults to a new backend with presence enabled.
+     */
+    backend?: any;
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The default interval in milliseconds at which documents are saved.
+   */
+  export
+  const SAVE_INTERVAL = 10000;
+
+  /**
+   * The default time in milliseconds within which the
+   * ops of a collaborator are recorded as a single change.
+   */
+  export
+  const HISTORY_WINDOW = 60000;
+
+  /**
+   * The key of a document under which clients request saves.
+   */
+  export
+  const SAVE_KEY = '$save';
+
+  /**
+   * The key of a document under which clients request reloads.
+   */
+  export
+  const RELOAD_KEY = '$reload';
+
+  /**
+   * The key of a document which has been moved or deleted.
+   */
+  export
+  const MOVED_KEY = '$moved';
+
+  /**
+   * The key of a document which marks it as served by this server.
+   */
+  export
+  const SERVER_KEY = '$server';
+
+  /**
+   * The path of the history document of a file, after the `#`.
+   */
+  export
+  const HISTORY_KEY = '$history';
+
+  /**
+   * The path of the blame document of a file, after the `#`.
+   */
+  export
+  const BLAME_KEY = '$blame';
+
+  /**
+   * A collaborator, as published by the clients through presence.
+   */
+  export
+  interface ICollaborator {
+    /**
+     * The id of the user.
+     */
+    userId: string;
+
+    /**
+     * The name shown for the user.
+     */
+    displayName: string;
+
+    /**
+     * The color of the user.
+     */
+    color: string;
+  }
+
+  /**
+   * An entry of the history document of a file.
+   */
+  export
+  interface IHistoryEntry {
+    /**
+     * The id of the changed document, which is the document
+     * of the file or of one of its separate views.
+     */
+    documentId: string;
+
+    /**
+     * The version of the document which the last op
+     * of the change was applied to.
+     */
+    version: number;
+
+    /**
+     * The time of the last op of the change,
+     * in milliseconds since the epoch.
+     */
+    time: number;
+
+    /**
+     * The collaborator who made the change, or `null`
+     * if it was made by the server or is unknown.
+     */
+    author: ICollaborator | null;
+  }
+
+  /**
+   * The blame of a document, as of a version.
+   */
+  export
+  interface IBlameState {
+    /**
+     * The number of ops which have been applied to the blame.
+     */
+    version: number;
+
+    /**
+     * The authors of the strings of the document.
+     */
+    blame: Blame;
+  }
+
+  /**
+   * Get the ops of a document from a version, with their metadata.
+   */
+  export
+  function getOps(db: any, collection: string, id: string, from: number): Promise<any[]> {
+    return new Promise<any[]>((resolve, reject) => {
+      db.getOps(collection, id, from, null, { metadata: true }, (err: any, ops: any[]) => {
+        err ? reject(err) : resolve(ops);
+      });
+    });
+  }
+
+  /**
+   * Fetch a ShareDB document.
+   */
+  export
+  function fetch(doc: any): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      doc.fetch((err: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(void 0);
+        }
+      });
+    });
+  }
+
+  /**
+   * Create a ShareDB document, unless a client has created it already.
+   */
+  export
+  function create(doc: any, data: Snapshot): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      doc.create(data, (err: any) => {
+        if (err && err.code !== 'ERR_DOC_ALREADY_CREATED') {
+          reject(err);
+        } else {
+          resolve(void 0);
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete a ShareDB document, if it exists.
+   */
+  export
+  function remove(doc: any): Promise<void> {
+    return fetch(doc).then(() => {
+      if (!doc.type) {
+        return undefined;
+      }
+      return new Promise<void>((resolve, reject) => {
+        doc.del((err: any) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(void 0);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Test whether the data of a document is a tombstone.
+   */
+  export
+  function isTombstone(data: any): boolean {
+    return typeof data === 'object' && data !== null && data[MOVED_KEY] !== undefined;
+  }
+
+  /**
+   * Submit an op to a ShareDB document.
+   */
+  export
+  function submit(doc: any, op: any): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      doc.submitOp(op, (err: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(void 0);
+        }
+      });
+    });
+  }
+
+  /**
+   * Test whether an op requests a save or reload, or
+   * leaves a tombstone, depending on the key.
+   *
+   * @param op: the components of the op.
+   *
+   * @param key: the key of the request.
+   */
+  export
+  function isRequest(op: any[], key: string): boolean {
+    return op.some(component => {
+      let p = component.p || [];
+      return p[0] === key && (p.length === 1 || p[1] === 'requests');
+    });
+  }
+
+  /**
+   * Record the version of a document for the clients which have
+   * requested a save or reload, unless a later version is recorded.
+   */
+  export
+  function stamp(doc: any, key: string, version: number): Promise<void> {
+    let state = doc.data && doc.data[key];
+    if (typeof state !== 'object' || state === null ||
+        (typeof state.version === 'number' && state.version >= version)) {
+      return Promise.resolve(void 0);
+    }
+    let op: any = { p: [key, 'version'], oi: version };
+    if (state.version !== undefined) {
+      op.od = state.version;
+    }
+    return submit(doc, op);
+  }
+
+  /**
+   * Test whether a value is a JSON object, rather than a list.
+   */
+  function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Test whether a change continues the last entry of a history,
+   * being made by the same collaborator to the same document
+   * within the given time.
+   */
+  export
+  function continues(last: IHistoryEntry, entry: IHistoryEntry, window: number): boolean {
+    let author = last.author && last.author.userId;
+    return last.documentId === entry.documentId && entry.time - last.time < window &&
+      author === (entry.author && entry.author.userId);
+  }
+
+  /**
+   * Test whether a component of an op sets one of the
+   * keys of a document used for requests and tombstones.
+   */
+  export
+  function isRequestComponent(component: any): boolean {
+    let key = component.p && component.p[0];
+    return typeof key === 'string' && key[0] === '$';
+  }
+
+  /**
+   * Test whether a document is the history or blame document of a file.
+   */
+  export
+  function isLog(documentId: string): boolean {
+    let path = documentId.slice(baseId(documentId).length + 1);
+    return path === HISTORY_KEY || path === BLAME_KEY;
+  }
+
+  /**
+   * Get the id of the document of a file from the id of
+   * its document or of the document of a separate view.
+   *
+   * #### Notes
+   * This follows `ShareModelDB.baseId` of the extension: the `#`
+   * characters of the paths of files are escaped, so the first `#`
+   * starts the path of a separate view.
+   */
+  export
+  function baseId(documentId: string): string {
+    let separator = documentId.indexOf('#');
+    return separator === -1 ? documentId : documentId.slice(0, separator);
+  }
+
+  /**
+   * Get the path of the file of a document from its id.
+   *
+   * #### Notes
+   * This reverses the escaping of `%` and `#` as `%25` and `%23`
+   * by `ShareDrive.documentId` of the extension.
+   */
+  export
+  function filePath(documentId: string): string {
+    return documentId.replace(/%2[35]/g, code => code === '%23' ? '#' : '%');
+  }
+
+  /**
+   * Get the collaborator tagged on an op, if it is well formed.
+   */
+  export
+  function toCollaborator(value: any): ICollaborator | null {
+    if (!isObject(value) || typeof value.userId !== 'string' ||
+        typeof value.displayName !== 'string' || typeof value.color !== 'string') {
+      return null;
+    }
+    let { userId, displayName, color } = value;
+    return { userId, displayName, color };
+  }
+
+  /**
+   * Get the value at a json0 path, or `undefined` if there is none.
+   */
+  export
+  function get(data: any, path: Array<string | number>): any {
+    for (let key of path) {
+      if (typeof data !== 'object' || data === null) {
+        return undefined;
+      }
+      data = data[key];
+    }
+    return data;
+  }
+
+  /**
+   * Parse the path of a separate view into a json0 path.
+   *
+   * #### Notes
+   * This follows `SharePath.parse` of the extension: segments are
+   * separated by unescaped `.`, `\` escapes the next character, and
+   * segments like `[2]` are list indices.
+   */
+  export
+  function parsePath(path: string): Array<string | number> {
+    let segments: Array<string | number> = [];
+    let start = 0;
+    let key = '';
+    for (let i = 0; i <= path.length; i++) {
+      let char = path[i];
+      if (char === '\\' && i + 1 < path.length) {
+        key += path[++i];
+      } else if (char === '.' || i === path.length) {
+        let index = /^\[(\d+)\]$/.exec(path.slice(start, i));
+        segments.push(index ? Number(index[1]) : key);
+        start = i + 1;
+        key = '';
+      } else {
+        key += char;
+      }
+    }
+    return path ? segments : [];
+  }
+}
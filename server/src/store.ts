@@ -0,0 +1,285 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import * as fs from 'fs';
+
+import * as http from 'http';
+
+import * as https from 'https';
+
+import * as nodePath from 'path';
+
+import * as url from 'url';
+
+
+/**
+ * A store for the text of files, addressed by the
+ * paths which the `ShareDrive` uses as document ids.
+ */
+export
+interface IFileStore {
+  /**
+   * Read a file.
+   *
+   * @param path: the path of the file, relative to the root of the store.
+   *
+   * @returns a promise resolved with the text of the file,
+   *   or with `null` if there is no such file.
+   */
+  read(path: string): Promise<string | null>;
+
+  /**
+   * Write a file, creating it if it does not exist.
+   *
+   * @param path: the path of the file, relative to the root of the store.
+   *
+   * @param content: the text of the file.
+   */
+  write(path: string, content: string): Promise<void>;
+}
+
+
+/**
+ * A file store backed by a directory of the local file system.
+ *
+ * #### Notes
+ * This is meant for running the server next to the Jupyter
+ * server, on the directory which the Jupyter server is serving.
+ */
+export
+class DirectoryStore implements IFileStore {
+  /**
+   * Construct a new directory store.
+   *
+   * @param root: the directory holding the files.
+   */
+  constructor(root: string) {
+    this.root = nodePath.resolve(root);
+  }
+
+  /**
+   * The directory holding the files.
+   */
+  readonly root: string;
+
+  /**
+   * Read a file.
+   */
+  read(path: string): Promise<string | null> {
+    let file = this._resolve(path);
+    return new Promise<string | null>((resolve, reject) => {
+      fs.readFile(file, 'utf8', (err, data) => {
+        if (err && err.code === 'ENOENT') {
+          resolve(null);
+        } else if (err) {
+          reject(err);
+        } else {
+          resolve(data);
+        }
+      });
+    });
+  }
+
+  /**
+   * Write a file, creating its directory if needed.
+   *
+   * #### Notes
+   * The text is written to a temporary file first, which then
+   * replaces the file, so that readers never see a partial file.
+   */
+  write(path: string, content: string): Promise<void> {
+    let file = this._resolve(path);
+    let temp = `${file}.sharedb-${process.pid}`;
+    return Private.makeDirectory(nodePath.dirname(file)).then(() => {
+      return new Promise<void>((resolve, reject) => {
+        fs.writeFile(temp, content, 'utf8', err => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          fs.rename(temp, file, err => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(void 0);
+            }
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Resolve a path relative to the root of the store.
+   */
+  private _resolve(path: string): string {
+    let file = nodePath.resolve(this.root, path);
+    if (file.indexOf(this.root + nodePath.sep) !== 0) {
+      throw Error(`Path is outside of the store: ${path}`);
+    }
+    return file;
+  }
+}
+
+
+/**
+ * A file store backed by the contents API of a Jupyter server.
+ */
+export
+class ContentsStore implements IFileStore {
+  /**
+   * Construct a new contents store.
+   */
+  constructor(options: ContentsStore.IOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.token = options.token || '';
+  }
+
+  /**
+   * The base URL of the Jupyter server.
+   */
+  readonly baseUrl: string;
+
+  /**
+   * The token used to authenticate with the Jupyter server.
+   */
+  readonly token: string;
+
+  /**
+   * Read a file.
+   *
+   * #### Notes
+   * Files are read as text, including notebooks.
+   */
+  read(path: string): Promise<string | null> {
+    return this._request('GET', `${this._url(path)}?type=file&format=text&content=1`)
+    .then(response => {
+      if (response.status === 404) {
+        return null;
+      }
+      return JSON.parse(response.body).content as string;
+    });
+  }
+
+  /**
+   * Write a file.
+   */
+  write(path: string, content: string): Promise<void> {
+    let body = JSON.stringify({ type: 'file', format: 'text', content });
+    return this._request('PUT', this._url(path), body).then(() => undefined);
+  }
+
+  /**
+   * Get the contents API URL of a path.
+   */
+  private _url(path: string): string {
+    let parts = path.split('/').filter(part => part);
+    if (parts.some(part => part === '.' || part === '..')) {
+      throw Error(`Path is outside of the store: ${path}`);
+    }
+    parts = parts.map(part => encodeURIComponent(part));
+    return `${this.baseUrl}/api/contents/${parts.join('/')}`;
+  }
+
+  /**
+   * Send a request to the Jupyter server.
+   *
+   * @returns a promise resolved with the response, which is rejected
+   *   for error statuses other than 404.
+   */
+  private _request(method: string, target: string, body?: string): Promise<Private.IResponse> {
+    let options: http.RequestOptions = url.parse(target);
+    options.method = method;
+    options.headers = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      options.headers['Authorization'] = `token ${this.token}`;
+    }
+    let send = options.protocol === 'https:' ? https.request : http.request;
+    return new Promise<Private.IResponse>((resolve, reject) => {
+      let request = send(options, response => {
+        let chunks: string[] = [];
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => { chunks.push(chunk); });
+        response.on('end', () => {
+          let status = response.statusCode || 0;
+          let text = chunks.join('');
+          if (status >= 400 && status !== 404) {
+            reject(Error(`${method} ${target} failed with status ${status}: ${text}`));
+          } else {
+            resolve({ status, body: text });
+          }
+        });
+      });
+      request.on('error', reject);
+      if (body !== undefined) {
+        request.write(body);
+      }
+      request.end();
+    });
+  }
+}
+
+
+/**
+ * A namespace for `ContentsStore` statics.
+ */
+export
+namespace ContentsStore {
+  /**
+   * Options for creating a `ContentsStore`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The base URL of the Jupyter server, such as `http://localhost:8888`.
+     */
+    baseUrl: string;
+
+    /**
+     * The token used to authenticate with the Jupyter server, if any.
+     */
+    token?: string;
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * A response from the Jupyter server.
+   */
+  export
+  interface IResponse {
+    /**
+     * The HTTP status code.
+     */
+    status: number;
+
+    /**
+     * The body of the response.
+     */
+    body: string;
+  }
+
+  /**
+   * Create a directory and its missing parents.
+   */
+  export
+  function makeDirectory(directory: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fs.mkdir(directory, err => {
+        if (!err || err.code === 'EEXIST') {
+          resolve(void 0);
+        } else if (err.code === 'ENOENT') {
+          makeDirectory(nodePath.dirname(directory)).then(() => {
+            return makeDirectory(directory);
+          }).then(resolve, reject);
+        } else {
+          reject(err);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,62 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  IClientInfo, createVerifier
+} from '../../src/auth';
+
+
+describe('auth', () => {
+
+  describe('createVerifier()', () => {
+
+    it('should only let in pages served from this machine by default', () => {
+      let verify = createVerifier();
+      expect(verify(Private.info('/', 'http://localhost:8888'))).to.be(true);
+      expect(verify(Private.info('/', 'http://127.0.0.1:8888'))).to.be(true);
+      expect(verify(Private.info('/', 'http://[::1]:8888'))).to.be(true);
+      expect(verify(Private.info('/', 'https://example.com'))).to.be(false);
+      expect(verify(Private.info('/', 'http://localhost.example.com'))).to.be(false);
+    });
+
+    it('should let in clients which are not browsers', () => {
+      let verify = createVerifier();
+      expect(verify(Private.info('/'))).to.be(true);
+    });
+
+    it('should require the token when one is set', () => {
+      let verify = createVerifier({ token: 'secret' });
+      expect(verify(Private.info('/?token=secret'))).to.be(true);
+      expect(verify(Private.info('/?token=secret', 'https://example.com'))).to.be(true);
+      expect(verify(Private.info('/?token=wrong'))).to.be(false);
+      expect(verify(Private.info('/?token=secret2'))).to.be(false);
+      expect(verify(Private.info('/', 'http://localhost:8888'))).to.be(false);
+    });
+
+    it('should only let in the allowed origins when they are set', () => {
+      let verify = createVerifier({ origins: ['https://hub.example.com'] });
+      expect(verify(Private.info('/', 'https://hub.example.com'))).to.be(true);
+      expect(verify(Private.info('/', 'http://localhost:8888'))).to.be(false);
+      verify = createVerifier({ token: 'secret', origins: ['https://hub.example.com'] });
+      expect(verify(Private.info('/?token=secret', 'https://example.com'))).to.be(false);
+    });
+
+  });
+
+});
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Create the information about a connecting client.
+   */
+  export
+  function info(path: string, origin?: string): IClientInfo {
+    return { origin, req: { url: path } as any };
+  }
+}
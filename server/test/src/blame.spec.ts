@@ -0,0 +1,81 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  Blame, applyOp
+} from '../../src/blame';
+
+
+describe('blame', () => {
+
+  describe('applyOp()', () => {
+
+    let blame: Blame;
+
+    beforeEach(() => {
+      blame = {};
+      applyOp(blame, {
+        create: {
+          type: 'http://sharejs.org/types/JSONv0',
+          data: { value: 'hello', cells: ['a', 'b'], $save: { requests: 1 } }
+        }
+      }, null);
+    });
+
+    it('should attribute the strings of a new document to its author', () => {
+      expect(blame).to.eql({
+        '["value"]': [{ author: null, length: 5 }],
+        '["cells",0]': [{ author: null, length: 1 }],
+        '["cells",1]': [{ author: null, length: 1 }]
+      });
+    });
+
+    it('should attribute inserted text to the author of the op', () => {
+      applyOp(blame, { op: [{ p: ['value', 2], si: 'xy' }] }, 'ada');
+      expect(blame['["value"]']).to.eql([
+        { author: null, length: 2 },
+        { author: 'ada', length: 2 },
+        { author: null, length: 3 }
+      ]);
+    });
+
+    it('should remove deleted text across runs', () => {
+      applyOp(blame, { op: [{ p: ['value', 5], si: '!!' }] }, 'ada');
+      applyOp(blame, { op: [{ p: ['value', 3], sd: 'lo!' }] }, 'grace');
+      expect(blame['["value"]']).to.eql([
+        { author: null, length: 3 },
+        { author: 'ada', length: 1 }
+      ]);
+    });
+
+    it('should attribute replaced values to the author of the op', () => {
+      applyOp(blame, { op: [{ p: ['value'], od: 'hello', oi: 'bye' }] }, 'ada');
+      expect(blame['["value"]']).to.eql([{ author: 'ada', length: 3 }]);
+    });
+
+    it('should move the blame with the items of a list', () => {
+      applyOp(blame, { op: [{ p: ['cells', 0], li: 'new' }] }, 'ada');
+      expect(blame['["cells",0]']).to.eql([{ author: 'ada', length: 3 }]);
+      expect(blame['["cells",2]']).to.eql([{ author: null, length: 1 }]);
+      applyOp(blame, { op: [{ p: ['cells', 0], lm: 2 }] }, 'grace');
+      expect(blame['["cells",2]']).to.eql([{ author: 'ada', length: 3 }]);
+      applyOp(blame, { op: [{ p: ['cells', 0], ld: 'a' }] }, 'grace');
+      expect(Object.keys(blame).sort()).to.eql(['["cells",0]', '["cells",1]', '["value"]']);
+      expect(blame['["cells",1]']).to.eql([{ author: 'ada', length: 3 }]);
+    });
+
+    it('should skip the keys of requests', () => {
+      applyOp(blame, { op: [{ p: ['$moved'], oi: 'other' }] }, 'ada');
+      expect(Object.keys(blame).length).to.be(3);
+    });
+
+    it('should clear the blame of a deleted document', () => {
+      applyOp(blame, { del: true }, 'ada');
+      expect(blame).to.eql({});
+    });
+
+  });
+
+});
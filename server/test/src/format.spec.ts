@@ -0,0 +1,110 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  fromSnapshot, isNotebook, toSnapshot
+} from '../../src/format';
+
+
+/**
+ * A notebook in the format written by Jupyter.
+ */
+const NOTEBOOK = {
+  cells: [
+    {
+      cell_type: 'markdown',
+      metadata: {},
+      source: ['# Title']
+    },
+    {
+      cell_type: 'code',
+      execution_count: 1,
+      metadata: { collapsed: false },
+      outputs: [{ name: 'stdout', output_type: 'stream', text: ['2\n'] }],
+      source: ['x = 1\n', 'print(x + 1)']
+    }
+  ],
+  metadata: { kernelspec: { display_name: 'Python 3', name: 'python3' } },
+  nbformat: 4,
+  nbformat_minor: 2
+};
+
+
+describe('format', () => {
+
+  describe('isNotebook()', () => {
+
+    it('should test the extension of the path', () => {
+      expect(isNotebook('analysis/run.ipynb')).to.be(true);
+      expect(isNotebook('analysis/run.py')).to.be(false);
+    });
+
+  });
+
+  describe('toSnapshot()', () => {
+
+    it('should store the text of a text file as its value', () => {
+      expect(toSnapshot('a.txt', 'hello')).to.eql({ value: 'hello' });
+    });
+
+    it('should store the cells of a notebook by id', () => {
+      let data = toSnapshot('a.ipynb', JSON.stringify(NOTEBOOK));
+      expect(data['cellOrder']).to.eql(['cell-0', 'cell-1']);
+      expect(data['cells']['cell-0']).to.eql({
+        type: 'markdown', value: '# Title', metadata: {}
+      });
+      expect(data['cells']['cell-1']['executionCount']).to.be(1);
+      expect(data['metadata']).to.eql(NOTEBOOK.metadata);
+    });
+
+    it('should join sources which are split into lines', () => {
+      let notebook = { cells: [{ cell_type: 'raw', metadata: {}, source: ['a\n', 'b'] }] };
+      let data = toSnapshot('a.ipynb', JSON.stringify(notebook));
+      expect(data['cells']['cell-0']['value']).to.be('a\nb');
+    });
+
+    it('should read an empty file as an empty notebook', () => {
+      let data = toSnapshot('a.ipynb', '');
+      expect(data['cellOrder']).to.eql([]);
+      expect(data['nbformat']).to.be(4);
+    });
+
+    it('should keep the ids of the cells of the previous data', () => {
+      let previous = toSnapshot('a.ipynb', JSON.stringify(NOTEBOOK));
+      previous['cellOrder'] = ['first', 'second'];
+      previous['cells'] = { first: previous['cells']['cell-0'], second: previous['cells']['cell-1'] };
+      let notebook = { cells: [NOTEBOOK.cells[0], NOTEBOOK.cells[0], NOTEBOOK.cells[1]] };
+      let data = toSnapshot('a.ipynb', JSON.stringify(notebook), previous);
+      let order = data['cellOrder'];
+      expect(order[0]).to.be('first');
+      expect(['first', 'second', 'cell-0', 'cell-1', 'cell-2']).to.not.contain(order[1]);
+      expect(['first', 'second', 'cell-0', 'cell-1', 'cell-2']).to.not.contain(order[2]);
+      expect(order[1]).to.not.be(order[2]);
+    });
+
+  });
+
+  describe('fromSnapshot()', () => {
+
+    it('should write the value of a text file', () => {
+      expect(fromSnapshot('a.txt', { value: 'hello' })).to.be('hello');
+    });
+
+    it('should round-trip a notebook', () => {
+      let content = JSON.stringify(NOTEBOOK, null, 1) + '\n';
+      expect(fromSnapshot('a.ipynb', toSnapshot('a.ipynb', content))).to.be(content);
+    });
+
+    it('should write the cells in their order', () => {
+      let data = toSnapshot('a.ipynb', JSON.stringify(NOTEBOOK));
+      data['cellOrder'].reverse();
+      let notebook = JSON.parse(fromSnapshot('a.ipynb', data));
+      expect(notebook.cells[0].cell_type).to.be('code');
+      expect(notebook.cells[1].cell_type).to.be('markdown');
+    });
+
+  });
+
+});
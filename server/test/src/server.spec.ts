@@ -0,0 +1,560 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import * as fs from 'fs';
+
+import * as os from 'os';
+
+import * as path from 'path';
+
+import {
+  ShareServer
+} from '../../src/server';
+
+import {
+  DirectoryStore
+} from '../../src/store';
+
+
+describe('ShareServer', () => {
+
+  let root: string;
+  let server: ShareServer;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'sharedb-server-'));
+    fs.mkdirSync(path.join(root, 'analysis'));
+    fs.writeFileSync(path.join(root, 'analysis', 'notes.txt'), 'hello');
+    server = new ShareServer({ store: new DirectoryStore(root), saveInterval: 0 });
+  });
+
+  afterEach(() => {
+    return server.close().then(() => {
+      Private.remove(root);
+    });
+  });
+
+  describe('#load()', () => {
+
+    it('should create a document from its file when a client subscribes', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        expect(doc.data).to.eql({ value: 'hello', $server: true });
+      });
+    });
+
+    it('should not create a document for a missing file', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'missing.txt');
+      return Private.subscribe(doc).then(() => {
+        expect(doc.type).to.be(null);
+      });
+    });
+
+    it('should mark the documents which clients create', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'new/file.txt');
+      return Private.subscribe(doc).then(() => {
+        return Private.create(doc, { value: 'new' });
+      }).then(() => {
+        return Private.until(doc, () => doc.data['$server'] === true);
+      }).then(() => {
+        expect(doc.data['value']).to.be('new');
+      });
+    });
+
+    it('should not mark the documents of separate views', () => {
+      fs.writeFileSync(path.join(root, 'run.ipynb'), JSON.stringify({
+        cells: [{ cell_type: 'code', metadata: {}, source: 'x', outputs: [] }]
+      }));
+      let doc = server.backend.connect().get('jupyterlab', 'run.ipynb#cells.cell-0');
+      return Private.subscribe(doc).then(() => {
+        expect(doc.data['$server']).to.be(undefined);
+      });
+    });
+
+    it('should create a separate view from the data of its base', () => {
+      fs.writeFileSync(path.join(root, 'run.ipynb'), JSON.stringify({
+        cells: [{ cell_type: 'code', metadata: {}, source: 'x', outputs: [] }]
+      }));
+      let doc = server.backend.connect().get('jupyterlab', 'run.ipynb#cells.cell-0');
+      return Private.subscribe(doc).then(() => {
+        expect(doc.data['value']).to.be('x');
+      });
+    });
+
+    it('should replace a tombstone with a new file at its path', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, { p: ['$moved'], oi: null });
+      }).then(() => {
+        fs.writeFileSync(path.join(root, 'analysis', 'notes.txt'), 'new file');
+        let other = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+        return Private.subscribe(other).then(() => {
+          expect(other.data).to.eql({ value: 'new file', $server: true });
+        });
+      });
+    });
+
+  });
+
+  describe('#save()', () => {
+
+    it('should write the changed documents to their files', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, { p: ['value', 5], si: ', world' });
+      }).then(() => {
+        return server.save();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'analysis', 'notes.txt'), 'utf8');
+        expect(content).to.be('hello, world');
+      });
+    });
+
+    it('should write a new document to a new file', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'new/file.txt');
+      return Private.subscribe(doc).then(() => {
+        return Private.create(doc, { value: 'new' });
+      }).then(() => {
+        return server.save();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'new', 'file.txt'), 'utf8');
+        expect(content).to.be('new');
+      });
+    });
+
+    it('should write the data of separate views into their base', () => {
+      fs.writeFileSync(path.join(root, 'run.ipynb'), JSON.stringify({
+        cells: [{ cell_type: 'code', metadata: {}, source: 'x', outputs: [] }]
+      }));
+      let connection = server.backend.connect();
+      let base = connection.get('jupyterlab', 'run.ipynb');
+      let cell = connection.get('jupyterlab', 'run.ipynb#cells.cell-0');
+      return Private.subscribe(base).then(() => {
+        return Private.subscribe(cell);
+      }).then(() => {
+        return Private.submit(base, {
+          p: ['cells', 'cell-0'], od: base.data.cells['cell-0'], oi: { documentId: 'run.ipynb#cells.cell-0' }
+        });
+      }).then(() => {
+        return Private.submit(cell, { p: ['value', 1], si: ' = 1' });
+      }).then(() => {
+        return server.save();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'run.ipynb'), 'utf8');
+        expect(JSON.parse(content).cells[0].source).to.eql(['x = 1']);
+      });
+    });
+
+    it('should write the files whose paths have a `#`', () => {
+      fs.writeFileSync(path.join(root, 'issue#12.ipynb'), JSON.stringify({
+        cells: [{ cell_type: 'code', metadata: {}, source: 'x', outputs: [] }]
+      }));
+      let connection = server.backend.connect();
+      let base = connection.get('jupyterlab', 'issue%2312.ipynb');
+      let cell = connection.get('jupyterlab', 'issue%2312.ipynb#cells.cell-0');
+      let history = connection.get('jupyterlab', 'issue%2312.ipynb#$history');
+      return Private.subscribe(base).then(() => {
+        return Private.subscribe(cell);
+      }).then(() => {
+        expect(cell.data['value']).to.be('x');
+        return Private.submit(base, {
+          p: ['cells', 'cell-0'], od: base.data.cells['cell-0'], oi: { documentId: 'issue%2312.ipynb#cells.cell-0' }
+        });
+      }).then(() => {
+        return Private.submit(cell, { p: ['value', 1], si: ' = 1' });
+      }).then(() => {
+        return server.save();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'issue#12.ipynb'), 'utf8');
+        expect(JSON.parse(content).cells[0].source).to.eql(['x = 1']);
+        expect(fs.existsSync(path.join(root, 'issue%2312.ipynb'))).to.be(false);
+        return Private.subscribe(history);
+      }).then(() => {
+        return Private.until(history, () => !!history.type && history.data.entries.some((entry: any) => {
+          return entry.documentId === 'issue%2312.ipynb#cells.cell-0' && entry.version === 1;
+        }));
+      });
+    });
+
+    it('should be requested through the document', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      let version: number;
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, [
+          { p: ['value', 5], si: '!' }, { p: ['$save'], oi: { requests: 1 } }
+        ]);
+      }).then(() => {
+        version = doc.version;
+        return Private.until(doc, () => doc.data['$save'].version !== undefined);
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'analysis', 'notes.txt'), 'utf8');
+        expect(content).to.be('hello!');
+        expect(doc.data['$save'].version).to.be(version);
+      });
+    });
+
+    it('should not write tombstones', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, [
+          { p: ['value', 5], si: '!' }, { p: ['$moved'], oi: 'analysis/moved.txt' }
+        ]);
+      }).then(() => {
+        return server.save();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'analysis', 'notes.txt'), 'utf8');
+        expect(content).to.be('hello');
+      });
+    });
+
+    it('should not write unchanged documents', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        fs.writeFileSync(path.join(root, 'analysis', 'notes.txt'), 'changed on disk');
+        return server.save();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'analysis', 'notes.txt'), 'utf8');
+        expect(content).to.be('changed on disk');
+      });
+    });
+
+  });
+
+  describe('#reload()', () => {
+
+    it('should move the document to the contents of its file', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        fs.writeFileSync(path.join(root, 'analysis', 'notes.txt'), 'hello again');
+        return server.reload('analysis/notes.txt');
+      }).then(() => {
+        return Private.settle(doc);
+      }).then(() => {
+        expect(doc.data['value']).to.be('hello again');
+      });
+    });
+
+    it('should reload the documents of separate views', () => {
+      fs.writeFileSync(path.join(root, 'run.ipynb'), JSON.stringify({
+        cells: [{ cell_type: 'code', metadata: {}, source: 'x', outputs: [] }]
+      }));
+      let connection = server.backend.connect();
+      let base = connection.get('jupyterlab', 'run.ipynb');
+      let cell = connection.get('jupyterlab', 'run.ipynb#cells.cell-0');
+      return Private.subscribe(base).then(() => {
+        return Private.subscribe(cell);
+      }).then(() => {
+        return Private.submit(base, {
+          p: ['cells', 'cell-0'], od: base.data.cells['cell-0'], oi: { documentId: 'run.ipynb#cells.cell-0' }
+        });
+      }).then(() => {
+        return Private.submit(cell, { p: ['value', 1], si: ' = 1' });
+      }).then(() => {
+        return server.reload('run.ipynb');
+      }).then(() => {
+        return Private.settle(cell);
+      }).then(() => {
+        expect(cell.data['value']).to.be('x');
+        expect(base.data['cells']['cell-0']).to.eql({ documentId: 'run.ipynb#cells.cell-0' });
+      });
+    });
+
+    it('should be requested through the document', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        fs.writeFileSync(path.join(root, 'analysis', 'notes.txt'), 'hello again');
+        return Private.submit(doc, { p: ['$reload'], oi: { requests: 1 } });
+      }).then(() => {
+        return Private.until(doc, () => doc.data['$reload'].version !== undefined);
+      }).then(() => {
+        expect(doc.data['value']).to.be('hello again');
+        expect(doc.data['$reload'].version).to.be.greaterThan(1);
+      });
+    });
+
+  });
+
+  describe('#collect()', () => {
+
+    it('should delete the documents whose files no longer exist', () => {
+      fs.writeFileSync(path.join(root, 'run.ipynb'), JSON.stringify({
+        cells: [{ cell_type: 'code', metadata: {}, source: 'x', outputs: [] }]
+      }));
+      let connection = server.backend.connect();
+      let notes = connection.get('jupyterlab', 'analysis/notes.txt');
+      let base = connection.get('jupyterlab', 'run.ipynb');
+      let cell = connection.get('jupyterlab', 'run.ipynb#cells.cell-0');
+      return Promise.all([
+        Private.subscribe(notes), Private.subscribe(base), Private.subscribe(cell)
+      ]).then(() => {
+        fs.unlinkSync(path.join(root, 'run.ipynb'));
+        return server.collect();
+      }).then(() => {
+        return Promise.all([
+          Private.settle(notes), Private.settle(base), Private.settle(cell)
+        ]);
+      }).then(() => {
+        expect(notes.type).to.not.be(null);
+        expect(base.type).to.be(null);
+        expect(cell.type).to.be(null);
+      });
+    });
+
+  });
+
+  describe('history', () => {
+
+    it('should record who made each change', () => {
+      let connection = server.backend.connect();
+      let doc = connection.get('jupyterlab', 'analysis/notes.txt');
+      let history = connection.get('jupyterlab', 'analysis/notes.txt#$history');
+      let presence = connection.getPresence(JSON.stringify(['jupyterlab', 'analysis/notes.txt']));
+      let local = presence.create('session');
+      return Private.subscribe(doc).then(() => {
+        return Private.callback(done => {
+          local.submit({
+            collaborator: { userId: 'ada', sessionId: 'session', displayName: 'Ada', color: 'red' },
+            state: {}
+          }, done);
+        });
+      }).then(() => {
+        return Private.submit(doc, [
+          { p: ['value', 5], si: '!' }, { p: ['$save'], oi: { requests: 1 } }
+        ]);
+      }).then(() => {
+        return Private.subscribe(history);
+      }).then(() => {
+        return Private.until(history, () => !!history.type && history.data.entries.length >= 2);
+      }).then(() => {
+        return Private.until(doc, () => doc.data['$save'].version !== undefined);
+      }).then(() => {
+        return Private.settle(history);
+      }).then(() => {
+        let entries = history.data.entries;
+        expect(entries[0].author).to.be(null);
+        expect(entries[1]).to.eql({
+          documentId: 'analysis/notes.txt',
+          version: 1,
+          time: entries[1].time,
+          author: { userId: 'ada', displayName: 'Ada', color: 'red' }
+        });
+        // The save request is not a change, but the save stamps the version.
+        expect(entries.length).to.be(2);
+      });
+    });
+
+    it('should record the consecutive ops of a collaborator as one change', () => {
+      let connection = server.backend.connect();
+      let other = server.backend.connect();
+      let doc = connection.get('jupyterlab', 'analysis/notes.txt');
+      let otherDoc = other.get('jupyterlab', 'analysis/notes.txt');
+      let history = connection.get('jupyterlab', 'analysis/notes.txt#$history');
+      Private.tag(connection, { userId: 'ada', displayName: 'Ada', color: 'red' }, 42);
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, { p: ['value', 5], si: '!' });
+      }).then(() => {
+        return Private.submit(doc, { p: ['value', 6], si: '!' });
+      }).then(() => {
+        return Private.subscribe(otherDoc);
+      }).then(() => {
+        return Private.submit(otherDoc, { p: ['value', 0], sd: 'h' });
+      }).then(() => {
+        return Private.subscribe(history);
+      }).then(() => {
+        return Private.until(history, () => !!history.type && history.data.entries.length >= 3);
+      }).then(() => {
+        return Private.settle(history);
+      }).then(() => {
+        let entries = history.data.entries;
+        expect(entries.map((entry: any) => entry.author && entry.author.userId)).to.eql([null, 'ada', null]);
+        expect(entries.map((entry: any) => entry.version)).to.eql([0, 2, 3]);
+      });
+    });
+
+    it('should record each op when there is no history window', () => {
+      return server.close().then(() => {
+        server = new ShareServer({ store: new DirectoryStore(root), saveInterval: 0, historyWindow: 0 });
+        let connection = server.backend.connect();
+        let doc = connection.get('jupyterlab', 'analysis/notes.txt');
+        let history = connection.get('jupyterlab', 'analysis/notes.txt#$history');
+        return Private.subscribe(doc).then(() => {
+          return Private.submit(doc, { p: ['value', 5], si: '!' });
+        }).then(() => {
+          return Private.submit(doc, { p: ['value', 6], si: '!' });
+        }).then(() => {
+          return Private.subscribe(history);
+        }).then(() => {
+          return Private.until(history, () => !!history.type && history.data.entries.length >= 3);
+        }).then(() => {
+          expect(history.data.entries.map((entry: any) => entry.version)).to.eql([0, 1, 2]);
+        });
+      });
+    });
+
+  });
+
+  describe('blame', () => {
+
+    it('should keep the author and time tagged on ops in the op log', () => {
+      let connection = server.backend.connect();
+      let doc = connection.get('jupyterlab', 'analysis/notes.txt');
+      Private.tag(connection, { userId: 'ada', displayName: 'Ada', color: 'red' }, 42);
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, { p: ['value', 5], si: '!' });
+      }).then(() => {
+        return new Promise<any[]>((resolve, reject) => {
+          server.backend.db.getOps('jupyterlab', 'analysis/notes.txt', 1, null, { metadata: true }, (err: any, ops: any[]) => {
+            err ? reject(err) : resolve(ops);
+          });
+        });
+      }).then(ops => {
+        expect(ops[0].m.author).to.eql({ userId: 'ada', displayName: 'Ada', color: 'red' });
+        expect(ops[0].m.time).to.be(42);
+      });
+    });
+
+    it('should record who last changed each range of the strings', () => {
+      let connection = server.backend.connect();
+      let doc = connection.get('jupyterlab', 'analysis/notes.txt');
+      let blame = connection.get('jupyterlab', 'analysis/notes.txt#$blame');
+      let runs = () => blame.type && blame.data.documents['analysis/notes.txt']['["value"]'];
+      Private.tag(connection, { userId: 'ada', displayName: 'Ada', color: 'red' }, 42);
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, { p: ['value', 5], si: ', world' });
+      }).then(() => {
+        return Private.submit(doc, { p: ['value', 1], sd: 'ell' });
+      }).then(() => {
+        return Private.subscribe(blame);
+      }).then(() => {
+        return Private.until(blame, () => !!runs() && runs().length > 0 && runs()[0].length === 2);
+      }).then(() => {
+        expect(runs()).to.eql([
+          { author: null, length: 2 }, { author: 'ada', length: 7 }
+        ]);
+        expect(blame.data.authors['ada']).to.eql({ userId: 'ada', displayName: 'Ada', color: 'red' });
+      });
+    });
+
+  });
+
+  describe('#close()', () => {
+
+    it('should save the changed documents', () => {
+      let doc = server.backend.connect().get('jupyterlab', 'analysis/notes.txt');
+      return Private.subscribe(doc).then(() => {
+        return Private.submit(doc, { p: ['value', 0], sd: 'h' });
+      }).then(() => {
+        return server.close();
+      }).then(() => {
+        let content = fs.readFileSync(path.join(root, 'analysis', 'notes.txt'), 'utf8');
+        expect(content).to.be('ello');
+        server = new ShareServer({ store: new DirectoryStore(root), saveInterval: 0 });
+      });
+    });
+
+  });
+
+});
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Subscribe to a ShareDB document.
+   */
+  export
+  function subscribe(doc: any): Promise<void> {
+    return callback(done => { doc.subscribe(done); });
+  }
+
+  /**
+   * Submit an op to a ShareDB document.
+   */
+  export
+  function submit(doc: any, op: any): Promise<void> {
+    return callback(done => { doc.submitOp(op, done); });
+  }
+
+  /**
+   * Wait until a subscribed document has no pending ops, and
+   * the ops submitted by the server so far have been received.
+   */
+  export
+  function settle(doc: any): Promise<void> {
+    return callback(done => { doc.fetch(done); });
+  }
+
+  /**
+   * Wait until a condition holds for a subscribed document.
+   */
+  export
+  function until(doc: any, condition: () => boolean): Promise<void> {
+    return new Promise<void>(resolve => {
+      let check = () => {
+        if (condition()) {
+          doc.removeListener('op', check);
+          resolve(void 0);
+        }
+      };
+      doc.on('op', check);
+      check();
+    });
+  }
+
+  /**
+   * Tag the ops sent over a connection like the extension does.
+   */
+  export
+  function tag(connection: any, author: any, time: number): void {
+    connection.on('send', (message: any) => {
+      if (message.a === 'op') {
+        message.x.author = author;
+        message.x.time = time;
+      }
+    });
+  }
+
+  /**
+   * Create a ShareDB document.
+   */
+  export
+  function create(doc: any, data: any): Promise<void> {
+    return callback(done => { doc.create(data, done); });
+  }
+
+  /**
+   * Remove a directory and its contents.
+   */
+  export
+  function remove(directory: string): void {
+    for (let name of fs.readdirSync(directory)) {
+      let file = path.join(directory, name);
+      if (fs.statSync(file).isDirectory()) {
+        remove(file);
+      } else {
+        fs.unlinkSync(file);
+      }
+    }
+    fs.rmdirSync(directory);
+  }
+
+  /**
+   * Wrap a function taking a node-style callback in a promise.
+   */
+  export
+  function callback(fn: (done: (err?: any) => void) => void): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fn(err => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(void 0);
+        }
+      });
+    });
+  }
+}
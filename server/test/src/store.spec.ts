@@ -0,0 +1,65 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import * as fs from 'fs';
+
+import * as os from 'os';
+
+import * as path from 'path';
+
+import {
+  ContentsStore, DirectoryStore
+} from '../../src/store';
+
+
+describe('store', () => {
+
+  describe('DirectoryStore', () => {
+
+    let root: string;
+    let store: DirectoryStore;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'sharedb-store-'));
+      store = new DirectoryStore(root);
+    });
+
+    afterEach(() => {
+      for (let name of fs.readdirSync(root)) {
+        fs.unlinkSync(path.join(root, name));
+      }
+      fs.rmdirSync(root);
+    });
+
+    it('should read and write the files in its directory', () => {
+      return store.write('notes.txt', 'hello').then(() => {
+        return store.read('notes.txt');
+      }).then(content => {
+        expect(content).to.be('hello');
+        return store.read('missing.txt');
+      }).then(content => {
+        expect(content).to.be(null);
+      });
+    });
+
+    it('should reject paths outside of its directory', () => {
+      expect(() => { store.read('../notes.txt'); }).to.throwError(/outside of the store/);
+      expect(() => { store.write('a/../../notes.txt', ''); }).to.throwError(/outside of the store/);
+    });
+
+  });
+
+  describe('ContentsStore', () => {
+
+    it('should reject paths outside of the contents root', () => {
+      let store = new ContentsStore({ baseUrl: 'http://localhost:1' });
+      expect(() => { store.read('../notes.txt'); }).to.throwError(/outside of the store/);
+      expect(() => { store.write('a/../../notes.txt', ''); }).to.throwError(/outside of the store/);
+      expect(() => { store.read('a/./notes.txt'); }).to.throwError(/outside of the store/);
+    });
+
+  });
+
+});
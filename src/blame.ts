@@ -0,0 +1,201 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  IDisposable
+} from '@phosphor/disposable';
+
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+import {
+  ConnectionPool
+} from './connection';
+
+import {
+  ShareHistory
+} from './history';
+
+import {
+  ShareModelDB
+} from './modeldb';
+
+import {
+  SharePrimitive
+} from './share';
+
+
+/**
+ * The authors of the text in the document of a `ShareModelDB`.
+ *
+ * #### Notes
+ * The ShareDB server in the `server` directory replays the op log
+ * of a document, and of the documents of its separate views, into
+ * the blame document of its file. It holds the authors who last
+ * changed each range of the strings, which lags behind the local
+ * edits until the server has received them.
+ */
+export
+class ShareBlame implements IDisposable {
+  /**
+   * Construct a new blame.
+   */
+  constructor(options: ShareBlame.IOptions) {
+    this.modelDB = options.modelDB;
+    this._pool = this.modelDB.pool;
+    this._doc = this._pool.acquire(this.modelDB.collection, ShareBlame.blameId(this.modelDB.documentId));
+    this._doc.on('load', this._onChange);
+    this._doc.on('create', this._onChange);
+    this._doc.on('op batch', this._onChange);
+    this._doc.subscribe();
+  }
+
+  /**
+   * The database whose document is shown.
+   */
+  readonly modelDB: ShareModelDB;
+
+  /**
+   * A signal emitted when the authors of the text have changed.
+   */
+  get changed(): ISignal<this, void> {
+    return this._changed;
+  }
+
+  /**
+   * Test whether the blame has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Get the ranges of the text of a string by their author.
+   *
+   * @param string: a string of the database or of one of its views.
+   *
+   * @param length: the length of the text, beyond which
+   *   ranges are left out. Defaults to the whole text.
+   *
+   * @returns the ranges of the text whose author is known, from
+   *   the start of the text. The text written by the server, such
+   *   as the contents of the file, has no author.
+   */
+  ranges(string: SharePrimitive, length = Infinity): ShareBlame.IRange[] {
+    let data = this._doc.data;
+    let documents = data && data.documents || {};
+    let runs: Private.IRun[] = (documents[string.doc.id] || {})[JSON.stringify(string.path)] || [];
+    let ranges: ShareBlame.IRange[] = [];
+    let start = 0;
+    for (let run of runs) {
+      let end = Math.min(start + run.length, length);
+      let author = run.author === null ? null : data.authors[run.author] || null;
+      if (author && end > start) {
+        ranges.push({ start, end, author });
+      }
+      start += run.length;
+    }
+    return ranges;
+  }
+
+  /**
+   * Dispose of the resources held by the blame.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._doc.removeListener('load', this._onChange);
+    this._doc.removeListener('create', this._onChange);
+    this._doc.removeListener('op batch', this._onChange);
+    this._pool.release(this._doc);
+    Signal.clearData(this);
+  }
+
+  /**
+   * Handle a change to the blame document.
+   */
+  private _onChange = () => {
+    this._changed.emit(void 0);
+  }
+
+  private _pool: ConnectionPool;
+  private _doc: any;
+  private _isDisposed = false;
+  private _changed = new Signal<this, void>(this);
+}
+
+
+/**
+ * A namespace for `ShareBlame` statics.
+ */
+export
+namespace ShareBlame {
+  /**
+   * Options for creating a `ShareBlame`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The database whose document is shown.
+     */
+    modelDB: ShareModelDB;
+  }
+
+  /**
+   * A range of text which was last changed by the same author.
+   */
+  export
+  interface IRange {
+    /**
+     * The offset of the start of the range.
+     */
+    readonly start: number;
+
+    /**
+     * The offset of the end of the range.
+     */
+    readonly end: number;
+
+    /**
+     * The collaborator who last changed the range.
+     */
+    readonly author: ShareHistory.IAuthor;
+  }
+
+  /**
+   * Get the id of the blame document of a document.
+   *
+   * #### Notes
+   * The documents of separate views share the blame document
+   * of their file.
+   */
+  export
+  function blameId(documentId: string): string {
+    return `${ShareModelDB.baseId(documentId)}#$blame`;
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * A range of a string by the same author, as stored by the server.
+   */
+  export
+  interface IRun {
+    /**
+     * The user id of the author, or `null` if it is unknown.
+     */
+    author: string | null;
+
+    /**
+     * The number of characters in the range.
+     */
+    length: number;
+  }
+}
@@ -0,0 +1,356 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONExt, JSONObject, JSONValue
+} from '@phosphor/coreutils';
+
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+import {
+  ICollaborator, ICollaboratorMap, ObservableMap, uuid
+} from '@jupyterlab/coreutils';
+
+
+/**
+ * An `ICollaboratorMap` which publishes the local collaborator and
+ * tracks remote ones through ShareDB presence.
+ *
+ * #### Notes
+ * The map is keyed by collaborator session id, and includes
+ * the local collaborator. Remote collaborators are removed when
+ * they disconnect, or when no heartbeat has been received from
+ * them for `timeout` milliseconds.
+ *
+ * Each client can also publish some transient state, such as
+ * cursor positions, alongside its collaborator.
+ */
+export
+class ShareCollaboratorMap extends ObservableMap<ICollaborator> implements ICollaboratorMap {
+  /**
+   * Construct a new collaborator map.
+   */
+  constructor(options: ShareCollaboratorMap.IOptions) {
+    super();
+    this.localCollaborator = options.localCollaborator;
+    this._timeout = options.timeout || ShareCollaboratorMap.TIMEOUT;
+    this.set(this.localCollaborator.sessionId, this.localCollaborator);
+
+    this._presence = options.connection.getPresence(options.channel);
+    this._presence.on('receive', this._onReceive);
+    this._presence.subscribe();
+    this._local = this._presence.create(this.localCollaborator.sessionId);
+    this._publish();
+    this._heartbeat = setInterval(() => {
+      this._publish();
+      this._expire();
+    }, options.heartbeat || ShareCollaboratorMap.HEARTBEAT);
+  }
+
+  /**
+   * The local collaborator on the model.
+   */
+  readonly localCollaborator: ICollaborator;
+
+  /**
+   * A signal emitted when the state published
+   * by a remote collaborator changes.
+   */
+  get stateChanged(): ISignal<this, ShareCollaboratorMap.IStateChangedArgs> {
+    return this._stateChanged;
+  }
+
+  /**
+   * Get the state published by a remote collaborator.
+   *
+   * @param sessionId - the session id of the collaborator.
+   *
+   * @returns the state, or `null` if there is none.
+   */
+  getState(sessionId: string): JSONObject | null {
+    return this._remoteState.get(sessionId) || null;
+  }
+
+  /**
+   * Set an entry of the state published for the local collaborator.
+   *
+   * @param key - the key of the entry.
+   *
+   * @param value - the value of the entry, or `null` to remove it.
+   */
+  setLocalState(key: string, value: JSONValue | null): void {
+    if (value === null) {
+      delete this._localState[key];
+    } else {
+      this._localState[key] = value;
+    }
+    this._publish();
+  }
+
+  /**
+   * Dispose of the resources held by the map,
+   * announcing that the local collaborator has left.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    clearInterval(this._heartbeat);
+    this._presence.removeListener('receive', this._onReceive);
+    this._local.destroy();
+    this._presence.destroy();
+    this._lastSeen.clear();
+    this._remoteState.clear();
+    Signal.clearData(this);
+    super.dispose();
+  }
+
+  /**
+   * Publish the local collaborator.
+   */
+  private _publish(): void {
+    let value: Private.IPresence = {
+      collaborator: this.localCollaborator,
+      state: this._localState
+    };
+    this._local.submit(value);
+  }
+
+  /**
+   * Remove remote collaborators whose heartbeat has timed out.
+   */
+  private _expire(): void {
+    let now = Date.now();
+    let expired: string[] = [];
+    this._lastSeen.forEach((time, id) => {
+      if (now - time > this._timeout) {
+        expired.push(id);
+      }
+    });
+    for (let id of expired) {
+      this._remove(id);
+    }
+  }
+
+  /**
+   * Remove a remote collaborator and its state.
+   */
+  private _remove(id: string): void {
+    this._lastSeen.delete(id);
+    if (this._remoteState.has(id)) {
+      this._remoteState.delete(id);
+      this._stateChanged.emit({ sessionId: id, state: null });
+    }
+    if (this.has(id)) {
+      this.delete(id);
+    }
+  }
+
+  /**
+   * Handle presence received from a remote client.
+   */
+  private _onReceive = (id: string, value: Private.IPresence | null) => {
+    if (this.isDisposed || id === this.localCollaborator.sessionId) {
+      return;
+    }
+    if (!value) {
+      this._remove(id);
+      return;
+    }
+    this._lastSeen.set(id, Date.now());
+    let old = this.get(id);
+    if (!old || !JSONExt.deepEqual(old, value.collaborator)) {
+      this.set(id, value.collaborator);
+    }
+    let state = value.state || {};
+    let oldState = this._remoteState.get(id);
+    if (!oldState || !JSONExt.deepEqual(oldState, state)) {
+      this._remoteState.set(id, state);
+      this._stateChanged.emit({ sessionId: id, state });
+    }
+  }
+
+  private _presence: any;
+  private _local: any;
+  private _heartbeat: any;
+  private _timeout: number;
+  private _lastSeen = new Map<string, number>();
+  private _localState: JSONObject = {};
+  private _remoteState = new Map<string, JSONObject>();
+  private _stateChanged = new Signal<this, ShareCollaboratorMap.IStateChangedArgs>(this);
+}
+
+
+/**
+ * A namespace for `ShareCollaboratorMap` statics.
+ */
+export
+namespace ShareCollaboratorMap {
+  /**
+   * Options for creating a `ShareCollaboratorMap`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The ShareDB connection to publish presence over.
+     */
+    connection: any;
+
+    /**
+     * The presence channel shared by the collaborators.
+     */
+    channel: string;
+
+    /**
+     * The local collaborator.
+     */
+    localCollaborator: ICollaborator;
+
+    /**
+     * The interval in milliseconds at which the local collaborator
+     * is republished. Defaults to `HEARTBEAT`.
+     */
+    heartbeat?: number;
+
+    /**
+     * The time in milliseconds after which a remote collaborator
+     * who has not published is removed. Defaults to `TIMEOUT`.
+     */
+    timeout?: number;
+  }
+
+  /**
+   * The arguments for the `stateChanged` signal.
+   */
+  export
+  interface IStateChangedArgs {
+    /**
+     * The session id of the remote collaborator.
+     */
+    sessionId: string;
+
+    /**
+     * The new state of the collaborator,
+     * or `null` if the collaborator has left.
+     */
+    state: JSONObject | null;
+  }
+
+  /**
+   * The interval in milliseconds at which the
+   * local collaborator is republished.
+   */
+  export
+  const HEARTBEAT = 10000;
+
+  /**
+   * The time in milliseconds after which a remote collaborator
+   * who has not published is considered to have left.
+   */
+  export
+  const TIMEOUT = 3 * HEARTBEAT;
+
+  /**
+   * Create a collaborator for the local user.
+   *
+   * @param displayName - the name to display for the user.
+   *
+   * @returns a collaborator with a new session id. The user id,
+   *   and the color derived from it, are kept in local storage
+   *   so that they are stable across reloads.
+   */
+  export
+  function createLocalCollaborator(displayName: string): ICollaborator {
+    let userId = Private.userId();
+    let name = displayName || 'Anonymous';
+    return {
+      userId,
+      sessionId: uuid(),
+      displayName: name,
+      color: Private.color(userId),
+      shortName: Private.shortName(name)
+    };
+  }
+
+  /**
+   * Compute the presence channel for a ShareDB document.
+   */
+  export
+  function channel(collection: string, id: string): string {
+    return JSON.stringify([collection, id]);
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The presence value published by each client.
+   */
+  export
+  interface IPresence {
+    /**
+     * The collaborator of the client.
+     */
+    collaborator: ICollaborator;
+
+    /**
+     * The transient state of the client.
+     */
+    state: JSONObject;
+  }
+
+  /**
+   * The local storage key for the user id.
+   */
+  const USER_ID_KEY = 'jupyterlab-sharedb:user-id';
+
+  /**
+   * The colors used for collaborators.
+   */
+  const COLORS = [
+    '#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd',
+    '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'
+  ];
+
+  /**
+   * Get the user id for this browser, creating it if needed.
+   */
+  export
+  function userId(): string {
+    if (typeof localStorage === 'undefined') {
+      return uuid();
+    }
+    let id = localStorage.getItem(USER_ID_KEY);
+    if (!id) {
+      id = uuid();
+      localStorage.setItem(USER_ID_KEY, id);
+    }
+    return id;
+  }
+
+  /**
+   * Pick a color for a user id.
+   */
+  export
+  function color(id: string): string {
+    let hash = 0;
+    for (let i = 0; i < id.length; i++) {
+      hash = (hash * 31 + id.charCodeAt(i)) | 0;
+    }
+    return COLORS[Math.abs(hash) % COLORS.length];
+  }
+
+  /**
+   * Compute the initials of a display name.
+   */
+  export
+  function shortName(name: string): string {
+    let initials = name.split(/\s+/).filter(part => part).map(part => part[0]);
+    return initials.slice(0, 2).join('').toUpperCase();
+  }
+}
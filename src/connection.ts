@@ -0,0 +1,383 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  IDisposable
+} from '@phosphor/disposable';
+
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+declare let require: any;
+let sharedb = require('sharedb/lib/client');
+
+
+/**
+ * A pool of ShareDB documents served over a single connection.
+ *
+ * #### Notes
+ * The socket is opened when the first document is acquired,
+ * and closed once every acquired document has been released.
+ *
+ * If the socket drops, the pool reconnects with exponential backoff
+ * according to its reconnect policy. Documents can still be edited
+ * while disconnected: ShareDB keeps the pending ops, and transforms
+ * them against the latest version on the server once reconnected.
+ */
+export
+class ConnectionPool implements IDisposable {
+  /**
+   * Construct a new connection pool.
+   */
+  constructor(options: ConnectionPool.IOptions) {
+    this._url = options.url;
+    this._createSocket = options.createSocket || Private.createWebSocket;
+    this._reconnect = options.reconnect || {
+      enabled: false, interval: 0, maxInterval: 0
+    };
+  }
+
+  /**
+   * The WebSocket URL of the ShareDB server.
+   */
+  get url(): string {
+    return this._url;
+  }
+
+  /**
+   * The policy for reconnecting after the connection drops.
+   */
+  get reconnect(): ConnectionPool.IReconnectPolicy {
+    return this._reconnect;
+  }
+
+  /**
+   * The ShareDB client connection, or `null`
+   * if no documents are currently acquired.
+   */
+  get connection(): any | null {
+    return this._connection;
+  }
+
+  /**
+   * The state of the connection.
+   */
+  get state(): ConnectionPool.ConnectionState {
+    return this._state;
+  }
+
+  /**
+   * A signal emitted when the state of the connection changes.
+   */
+  get stateChanged(): ISignal<this, ConnectionPool.ConnectionState> {
+    return this._stateChanged;
+  }
+
+  /**
+   * Whether the pool is disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Acquire a ShareDB document, opening the connection if needed.
+   *
+   * @param collection: the collection holding the document.
+   *
+   * @param id: the id of the document.
+   *
+   * @returns the ShareDB document. Every client of the pool
+   *   asking for the same document gets the same object.
+   *
+   * #### Notes
+   * Every call should be balanced by a call to `release`.
+   */
+  acquire(collection: string, id: string): any {
+    if (this._isDisposed) {
+      throw Error('Cannot acquire a document from a disposed pool');
+    }
+    if (!this._connection) {
+      this._connection = this._connect();
+    }
+    let key = Private.key(collection, id);
+    this._counts.set(key, (this._counts.get(key) || 0) + 1);
+    let destroying = this._destroying.get(key);
+    if (destroying) {
+      // Keep the document which is being released, since ShareDB
+      // would remove a new one from the connection once it is destroyed.
+      this._destroying.delete(key);
+      return destroying.doc;
+    }
+    return this._connection.get(collection, id);
+  }
+
+  /**
+   * Release a ShareDB document acquired from the pool.
+   *
+   * @param doc: the document to release.
+   *
+   * #### Notes
+   * When the last reference to a document is released it
+   * is destroyed, and when no documents remain the connection
+   * is closed after pending ops have been sent.
+   *
+   * The document is unsubscribed before it is destroyed, and it is
+   * only destroyed if it has not been acquired again in the meantime,
+   * so that the pool never hands out a document which is about to be
+   * removed from the connection.
+   */
+  release(doc: any): void {
+    let key = Private.key(doc.collection, doc.id);
+    let count = this._counts.get(key);
+    if (!count) {
+      return;
+    }
+    if (count > 1) {
+      this._counts.set(key, count - 1);
+      return;
+    }
+    this._counts.delete(key);
+    let connection = this._connection;
+    let destroying = { doc };
+    this._destroying.set(key, destroying);
+    doc.whenNothingPending(() => {
+      if (this._destroying.get(key) !== destroying) {
+        return;
+      }
+      doc.unsubscribe(() => {
+        if (this._destroying.get(key) !== destroying) {
+          return;
+        }
+        // The document is no longer subscribed, so ShareDB
+        // removes it from the connection without another request.
+        this._destroying.delete(key);
+        doc.destroy(() => {
+          if (this._counts.size === 0 && this._connection === connection) {
+            this._close();
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Reconnect to the server immediately, replacing the current
+   * socket and resetting the backoff of the reconnect policy.
+   *
+   * #### Notes
+   * This is a no-op if no documents are acquired.
+   */
+  forceReconnect(): void {
+    let connection = this._connection;
+    if (!connection) {
+      return;
+    }
+    clearTimeout(this._reconnectTimer);
+    this._attempts = 0;
+    connection.bindToSocket(this._createSocket(this._url));
+  }
+
+  /**
+   * Dispose of the resources held by the pool,
+   * closing the connection immediately.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._counts.clear();
+    this._destroying.clear();
+    this._close();
+    Signal.clearData(this);
+  }
+
+  /**
+   * Open a new connection to the server.
+   */
+  private _connect(): any {
+    let connection = new sharedb.Connection(this._createSocket(this._url));
+    connection.on('state', (state: string) => {
+      if (this._connection !== connection) {
+        return;
+      }
+      if (state === 'connected') {
+        this._attempts = 0;
+      }
+      this._setState(Private.toConnectionState(state));
+      if (state === 'disconnected' && this._reconnect.enabled) {
+        this._scheduleReconnect();
+      }
+    });
+    this._setState(Private.toConnectionState(connection.state));
+    return connection;
+  }
+
+  /**
+   * Schedule an attempt to reconnect, backing off
+   * exponentially after repeated failures.
+   */
+  private _scheduleReconnect(): void {
+    let { interval, maxInterval } = this._reconnect;
+    let delay = Math.min(interval * Math.pow(2, this._attempts), maxInterval);
+    this._attempts++;
+    let connection = this._connection;
+    clearTimeout(this._reconnectTimer);
+    this._reconnectTimer = setTimeout(() => {
+      // ShareDB resubscribes and resends pending ops
+      // once it is bound to the new socket.
+      if (this._connection === connection &&
+          connection.state === 'disconnected') {
+        connection.bindToSocket(this._createSocket(this._url));
+      }
+    }, delay);
+  }
+
+  /**
+   * Set the connection state, emitting a signal if it changed.
+   */
+  private _setState(state: ConnectionPool.ConnectionState): void {
+    if (state === this._state) {
+      return;
+    }
+    this._state = state;
+    this._stateChanged.emit(state);
+  }
+
+  /**
+   * Close the current connection, if any.
+   */
+  private _close(): void {
+    let connection = this._connection;
+    if (!connection) {
+      return;
+    }
+    this._connection = null;
+    clearTimeout(this._reconnectTimer);
+    this._attempts = 0;
+    connection.close();
+    this._setState('closed');
+  }
+
+  private _url: string;
+  private _createSocket: (url: string) => any;
+  private _reconnect: ConnectionPool.IReconnectPolicy;
+  private _connection: any | null = null;
+  private _counts = new Map<string, number>();
+  private _destroying = new Map<string, { doc: any }>();
+  private _isDisposed = false;
+  private _state: ConnectionPool.ConnectionState = 'closed';
+  private _stateChanged = new Signal<this, ConnectionPool.ConnectionState>(this);
+  private _attempts = 0;
+  private _reconnectTimer: any = null;
+}
+
+
+/**
+ * A namespace for `ConnectionPool` statics.
+ */
+export
+namespace ConnectionPool {
+  /**
+   * Options for creating a `ConnectionPool`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The WebSocket URL of the ShareDB server.
+     */
+    url: string;
+
+    /**
+     * The policy for reconnecting to the server after the
+     * connection drops. Defaults to not reconnecting.
+     */
+    reconnect?: IReconnectPolicy;
+
+    /**
+     * A function which opens a socket to the server at a URL.
+     * Defaults to opening a `WebSocket`.
+     *
+     * #### Notes
+     * The socket must provide the part of the `WebSocket`
+     * interface used by ShareDB: `readyState`, `send`, `close`,
+     * and the `onopen`, `onmessage`, `onclose` and `onerror`
+     * handlers.
+     */
+    createSocket?: (url: string) => any;
+  }
+
+  /**
+   * A policy for reconnecting to the ShareDB server.
+   */
+  export
+  interface IReconnectPolicy {
+    /**
+     * Whether to reconnect after the connection drops.
+     */
+    enabled: boolean;
+
+    /**
+     * The time in milliseconds to wait before the first
+     * attempt to reconnect, which doubles after each failure.
+     */
+    interval: number;
+
+    /**
+     * The maximum time in milliseconds between attempts.
+     */
+    maxInterval: number;
+  }
+
+  /**
+   * The state of a connection to the ShareDB server.
+   *
+   * - `'connecting'`: the connection is being established.
+   * - `'connected'`: the connection is open, and ops are being sent.
+   * - `'disconnected'`: the connection dropped, and ops are queued
+   *   until it is reestablished.
+   * - `'closed'`: there is no connection, either because no documents
+   *   are open or because the server stopped it.
+   */
+  export
+  type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'closed';
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Compute the key used to count references to a document.
+   */
+  export
+  function key(collection: string, id: string): string {
+    return JSON.stringify([collection, id]);
+  }
+
+  /**
+   * Open a WebSocket to the server.
+   */
+  export
+  function createWebSocket(url: string): any {
+    return new WebSocket(url);
+  }
+
+  /**
+   * Convert the state of a ShareDB connection to a connection state.
+   */
+  export
+  function toConnectionState(state: string): ConnectionPool.ConnectionState {
+    switch (state) {
+    case 'connecting':
+    case 'connected':
+    case 'disconnected':
+      return state;
+    default:
+      return 'closed';
+    }
+  }
+}
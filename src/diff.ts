@@ -0,0 +1,352 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * Compute the json0 op components which turn one JSON value into another.
+ *
+ * @param oldValue: the old value, or `undefined` if there is none.
+ *
+ * @param newValue: the new value, or `undefined` to remove the old one.
+ *
+ * @param path: the path of the value in the document.
+ *
+ * @param options: how to treat the references to the documents
+ *   of separate views.
+ *
+ * @returns the components, in the order in which they apply.
+ *
+ * #### Notes
+ * Objects are updated key by key, the items of lists index by index,
+ * and strings by the hunks of a shortest edit script, so that the
+ * models bound to unchanged parts are kept and concurrent edits to
+ * them survive. Items of lists are replaced as list items, so that
+ * they are transformed against concurrent inserts and removes.
+ *
+ * The root keys of a document starting with `$`, which are used for
+ * requests, are not removed.
+ *
+ * This module has no dependencies, so that the ShareDB server in the
+ * `server` directory builds it along with its own sources.
+ */
+export
+function diff(oldValue: any, newValue: any, path: Array<string | number> = [], options: IDiffOptions = {}): any[] {
+  let ops: any[] = [];
+  Private.diff(oldValue, newValue, path, options, ops);
+  return ops;
+}
+
+
+/**
+ * Options for `diff`.
+ */
+export
+interface IDiffOptions {
+  /**
+   * The id of the document holding the value.
+   */
+  documentId?: string;
+
+  /**
+   * The list to which the new data of the documents of separate
+   * views of `documentId` is added, instead of replacing the
+   * references to them. Defaults to replacing the references.
+   */
+  references?: IReference[];
+}
+
+
+/**
+ * The new data of the document of a separate view.
+ */
+export
+interface IReference {
+  /**
+   * The id of the document.
+   */
+  documentId: string;
+
+  /**
+   * The new data of the document.
+   */
+  value: any;
+}
+
+
+/**
+ * Test whether a value is a reference to the
+ * document of a separate view of a document.
+ *
+ * @param value: the value to test.
+ *
+ * @param documentId: the id of the document, or `undefined`
+ *   to accept the references to the views of any document.
+ */
+export
+function isReference(value: any, documentId?: string): boolean {
+  if (!Private.isObject(value) || Object.keys(value).length !== 1 ||
+      typeof value.documentId !== 'string') {
+    return false;
+  }
+  return documentId === undefined || value.documentId.indexOf(documentId + '#') === 0;
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * A change to a range of a string.
+   */
+  interface IHunk {
+    /**
+     * The offset of the change in the old string.
+     */
+    start: number;
+
+    /**
+     * The text removed from the old string.
+     */
+    remove: string;
+
+    /**
+     * The text inserted in its place.
+     */
+    insert: string;
+  }
+
+  /**
+   * The largest number of edits for which a full diff is computed.
+   * Beyond it, the text between the common prefix and suffix of the
+   * strings is replaced as a whole.
+   */
+  const MAX_EDITS = 1000;
+
+  /**
+   * Add the components which turn one value into another to a list.
+   */
+  export
+  function diff(oldValue: any, newValue: any, path: Array<string | number>, options: IDiffOptions, ops: any[]): void {
+    if (oldValue !== undefined && newValue !== undefined && isEqual(oldValue, newValue)) {
+      return;
+    }
+    let { documentId, references } = options;
+    if (references && documentId !== undefined && isReference(oldValue, documentId) &&
+        newValue !== undefined && !isReference(newValue, documentId)) {
+      references.push({ documentId: oldValue.documentId, value: newValue });
+      return;
+    }
+    if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+      let shared = Math.min(oldValue.length, newValue.length);
+      for (let i = 0; i < shared; i++) {
+        if (isContainer(oldValue[i], newValue[i])) {
+          diff(oldValue[i], newValue[i], [...path, i], options, ops);
+        } else if (!isEqual(oldValue[i], newValue[i])) {
+          ops.push({ p: [...path, i], ld: oldValue[i], li: newValue[i] });
+        }
+      }
+      // Remove items from the end first, so that indices stay valid.
+      for (let i = oldValue.length - 1; i >= shared; i--) {
+        ops.push({ p: [...path, i], ld: oldValue[i] });
+      }
+      for (let i = shared; i < newValue.length; i++) {
+        ops.push({ p: [...path, i], li: newValue[i] });
+      }
+      return;
+    }
+    if (isObject(oldValue) && isObject(newValue)) {
+      for (let key of Object.keys(oldValue)) {
+        if (!hasKey(newValue, key) && !(path.length === 0 && key[0] === '$')) {
+          ops.push({ p: [...path, key], od: oldValue[key] });
+        }
+      }
+      for (let key of Object.keys(newValue)) {
+        if (hasKey(oldValue, key)) {
+          diff(oldValue[key], newValue[key], [...path, key], options, ops);
+        } else {
+          ops.push({ p: [...path, key], oi: newValue[key] });
+        }
+      }
+      return;
+    }
+    if (typeof oldValue === 'string' && typeof newValue === 'string') {
+      // Submit the hunks from last to first, so that the
+      // positions of the earlier ones are not shifted.
+      for (let hunk of diffText(oldValue, newValue).reverse()) {
+        let p = [...path, hunk.start];
+        if (hunk.remove) {
+          ops.push({ p, sd: hunk.remove });
+        }
+        if (hunk.insert) {
+          ops.push({ p, si: hunk.insert });
+        }
+      }
+      return;
+    }
+    let op: any = { p: path };
+    if (oldValue !== undefined) {
+      op.od = oldValue;
+    }
+    if (newValue !== undefined) {
+      op.oi = newValue;
+    }
+    ops.push(op);
+  }
+
+  /**
+   * Test whether two JSON values are equal.
+   */
+  function isEqual(a: any, b: any): boolean {
+    if (a === b) {
+      return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+    }
+    if (isObject(a) && isObject(b)) {
+      let keys = Object.keys(a);
+      return keys.length === Object.keys(b).length &&
+        keys.every(key => hasKey(b, key) && isEqual(a[key], b[key]));
+    }
+    return false;
+  }
+
+  /**
+   * Test whether two JSON values are both lists or both objects,
+   * so that one can be edited into the other.
+   */
+  function isContainer(a: any, b: any): boolean {
+    return (Array.isArray(a) && Array.isArray(b)) || (isObject(a) && isObject(b));
+  }
+
+  /**
+   * Test whether a value is a JSON object, rather than a list.
+   */
+  export
+  function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Whether an object has a key of its own.
+   */
+  function hasKey(value: any, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(value, key);
+  }
+
+  /**
+   * Compute the changes which turn one string into another.
+   *
+   * @returns the hunks of a shortest edit script, in order.
+   *
+   * #### Notes
+   * This uses the Myers diff algorithm on characters.
+   */
+  function diffText(oldText: string, newText: string): IHunk[] {
+    let prefix = 0;
+    let max = Math.min(oldText.length, newText.length);
+    while (prefix < max && oldText[prefix] === newText[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    max -= prefix;
+    while (suffix < max && oldText[oldText.length - 1 - suffix] ===
+           newText[newText.length - 1 - suffix]) {
+      suffix++;
+    }
+    let a = oldText.slice(prefix, oldText.length - suffix);
+    let b = newText.slice(prefix, newText.length - suffix);
+    if (!a && !b) {
+      return [];
+    }
+    let script = (a && b) ? editScript(a, b) : null;
+    if (!script) {
+      return [{ start: prefix, remove: a, insert: b }];
+    }
+
+    // Group the runs of edits into hunks.
+    let hunks: IHunk[] = [];
+    let hunk: IHunk | null = null;
+    let x = 0;
+    let y = 0;
+    for (let edit of script) {
+      if (edit === '=') {
+        hunk = null;
+        x++;
+        y++;
+        continue;
+      }
+      if (!hunk) {
+        hunk = { start: prefix + x, remove: '', insert: '' };
+        hunks.push(hunk);
+      }
+      if (edit === '-') {
+        hunk.remove += a[x++];
+      } else {
+        hunk.insert += b[y++];
+      }
+    }
+    return hunks;
+  }
+
+  /**
+   * Compute a shortest edit script between two strings, as a list
+   * of `'='` (keep), `'-'` (remove) and `'+'` (insert) steps, or
+   * `null` if it would take more than `MAX_EDITS` edits.
+   */
+  function editScript(a: string, b: string): string[] | null {
+    let n = a.length;
+    let m = b.length;
+    let limit = Math.min(n + m, MAX_EDITS);
+    let offset = limit + 1;
+    let v: number[] = new Array(2 * limit + 3);
+    v[offset + 1] = 0;
+    let trace: number[][] = [];
+    for (let d = 0; d <= limit; d++) {
+      trace.push(v.slice());
+      for (let k = -d; k <= d; k += 2) {
+        let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ?
+          v[offset + k + 1] : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+        if (x >= n && y >= m) {
+          return backtrack(trace, offset, n, m);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Recover the edit script from the trace of the Myers algorithm.
+   */
+  function backtrack(trace: number[][], offset: number, n: number, m: number): string[] {
+    let script: string[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+      let v = trace[d];
+      let k = x - y;
+      let prevK = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ?
+        k + 1 : k - 1;
+      let prevX = d === 0 ? 0 : v[offset + prevK];
+      let prevY = d === 0 ? 0 : prevX - prevK;
+      while (x > prevX && y > prevY) {
+        script.push('=');
+        x--;
+        y--;
+      }
+      if (d > 0) {
+        script.push(x === prevX ? '+' : '-');
+      }
+      x = prevX;
+      y = prevY;
+    }
+    return script.reverse();
+  }
+}
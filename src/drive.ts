@@ -1,14 +1,26 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
 import {
   Contents, Drive
 } from '@jupyterlab/services';
 
 import {
-  ModelDB
+  ICollaborator, ModelDB
 } from '@jupyterlab/coreutils';
 
+import {
+  ShareCollaboratorMap
+} from './collaborators';
+
+import {
+  ConnectionPool
+} from './connection';
+
 import {
   ShareModelDB
 } from './modeldb';
@@ -21,15 +33,419 @@ import {
 export
 class ShareDrive extends Drive implements Contents.IDrive {
 
-  constructor() {
+  constructor(options: ShareDrive.IOptions = {}) {
     super({ name: 'Share' });
+    this._settings = options.settings || ShareDrive.defaultSettings;
+    this._createSocket = options.createSocket;
+    this._pool = Private.createPool(this._settings, this._createSocket);
+    this._localCollaborator = ShareCollaboratorMap.createLocalCollaborator(
+      this._settings.displayName
+    );
+  }
+
+  /**
+   * The settings used to connect new documents to the ShareDB server.
+   *
+   * #### Notes
+   * Changing the settings does not affect documents which
+   * are already open.
+   */
+  get settings(): ShareDrive.ISettings {
+    return this._settings;
+  }
+  set settings(value: ShareDrive.ISettings) {
+    let old = this._settings;
+    this._settings = value;
+    if (value.url !== old.url ||
+        value.reconnect.enabled !== old.reconnect.enabled ||
+        value.reconnect.interval !== old.reconnect.interval ||
+        value.reconnect.maxInterval !== old.reconnect.maxInterval) {
+      // The old pool closes its connection once the documents
+      // which are still open on it have been disposed.
+      this._pool = Private.createPool(value, this._createSocket);
+    }
+    if (value.displayName !== old.displayName) {
+      this._localCollaborator = ShareCollaboratorMap.createLocalCollaborator(
+        value.displayName
+      );
+    }
+  }
+
+  /**
+   * A signal emitted when an op on one of the documents
+   * of the drive fails or is rejected by the server.
+   */
+  get opFailed(): ISignal<this, ShareModelDB.IOpFailedArgs> {
+    return this._opFailed;
+  }
+
+  /**
+   * A signal emitted when one of the open documents of the drive
+   * has been moved or deleted, by this client or a collaborator.
+   *
+   * #### Notes
+   * The document ids are the paths of the files in the drive. The
+   * models of the open document remain bound to the old document,
+   * so their widgets should be closed, and reopened at the new path.
+   */
+  get documentMoved(): ISignal<this, ShareModelDB.IDocumentMovedArgs> {
+    return this._documentMoved;
+  }
+
+  /**
+   * A signal emitted when the documents of a file could not be
+   * moved, deleted or copied along with it.
+   *
+   * #### Notes
+   * The documents are moved in the background once the file
+   * operation has succeeded, so their failures are reported here.
+   */
+  get moveFailed(): ISignal<this, ShareDrive.IMoveFailedArgs> {
+    return this._moveFailed;
   }
 
   get modelDBFactory(): ModelDB.IFactory {
     return {
       createNew: (path: string) => {
-        return new ShareModelDB();
+        let documentId = ShareDrive.documentId(path);
+        let modelDB = new ShareModelDB({
+          pool: this._pool,
+          collection: this._settings.collection,
+          documentId,
+          localCollaborator: this._localCollaborator,
+          separateViews: this._settings.cellDocuments ? ['cells'] : []
+        });
+        modelDB.opFailed.connect(this._onOpFailed, this);
+        modelDB.documentMoved.connect(this._onDocumentMoved, this);
+        this._modelDBs[documentId] = modelDB;
+        return modelDB;
+      }
+    }
+  }
+
+  /**
+   * Save a file.
+   *
+   * #### Notes
+   * If the file is open as a shared document, and the ShareDB server
+   * handles requests, it saves the converged document instead of the
+   * content given by this client, so that every collaborator saves
+   * the same state. Otherwise the content is saved as usual.
+   */
+  save(localPath: string, options?: Partial<Contents.IModel>): Promise<Contents.IModel> {
+    return this._servedModelDB(localPath).then(modelDB => {
+      if (!modelDB) {
+        return super.save(localPath, options);
+      }
+      return modelDB.requestSave().then(() => {
+        return this.get(localPath, { content: false });
+      });
+    });
+  }
+
+  /**
+   * Create a checkpoint of a file.
+   *
+   * #### Notes
+   * If the file is open as a shared document, and the ShareDB server
+   * handles requests, it is saved first, so that the checkpoint holds
+   * the converged document.
+   */
+  createCheckpoint(localPath: string): Promise<Contents.ICheckpointModel> {
+    return this._servedModelDB(localPath).then(modelDB => {
+      if (!modelDB) {
+        return super.createCheckpoint(localPath);
+      }
+      return modelDB.requestSave().then(() => {
+        return super.createCheckpoint(localPath);
+      });
+    });
+  }
+
+  /**
+   * Restore a file to a checkpoint.
+   *
+   * #### Notes
+   * If the file is open as a shared document, and the ShareDB server
+   * handles requests, it then reloads the document from the file,
+   * which moves the open documents of every collaborator to the
+   * checkpoint. Otherwise the document is reverted by this client,
+   * whose changes reach the other collaborators as usual.
+   */
+  restoreCheckpoint(localPath: string, checkpointID: string): Promise<void> {
+    return super.restoreCheckpoint(localPath, checkpointID).then(() => {
+      return this._servedModelDB(localPath);
+    }).then(modelDB => {
+      if (modelDB) {
+        return modelDB.requestReload().then(() => undefined);
       }
+      return undefined;
+    });
+  }
+
+  /**
+   * Rename a file or directory.
+   *
+   * #### Notes
+   * The documents of the files are moved to their new paths,
+   * leaving tombstones which tell the collaborators who have
+   * them open. This happens in the background, so that the
+   * rename does not wait for the ShareDB server.
+   */
+  rename(oldLocalPath: string, newLocalPath: string): Promise<Contents.IModel> {
+    return super.rename(oldLocalPath, newLocalPath).then(model => {
+      let oldPrefix = ShareDrive.documentId(oldLocalPath);
+      let newPrefix = ShareDrive.documentId(model.path);
+      this._files(model).then(paths => {
+        return Promise.all(paths.map(path => {
+          let newId = ShareDrive.documentId(path);
+          let oldId = oldPrefix + newId.slice(newPrefix.length);
+          return ShareModelDB.moveDocument(this._pool, this._settings.collection, oldId, newId);
+        }));
+      }).catch(error => {
+        this._moveFailed.emit({ operation: 'rename', path: oldLocalPath, error });
+      });
+      return model;
+    });
+  }
+
+  /**
+   * Delete a file or directory.
+   *
+   * #### Notes
+   * The documents of the files are left as tombstones, which tell
+   * the collaborators who have them open. This happens in the
+   * background, so that the delete does not wait for the ShareDB server.
+   */
+  delete(localPath: string): Promise<void> {
+    let files = this.get(localPath, { content: false }).then(model => {
+      return this._files(model);
+    }, () => [] as string[]);
+    return files.then(paths => {
+      return super.delete(localPath).then(() => {
+        Promise.all(paths.map(path => {
+          let documentId = ShareDrive.documentId(path);
+          return ShareModelDB.moveDocument(this._pool, this._settings.collection, documentId, null);
+        })).catch(error => {
+          this._moveFailed.emit({ operation: 'delete', path: localPath, error });
+        });
+      });
+    });
+  }
+
+  /**
+   * Copy a file.
+   *
+   * #### Notes
+   * The document of the file is copied in the background, so that
+   * the copy has the changes which have not been saved yet, and the
+   * copy does not wait for the ShareDB server.
+   */
+  copy(localPath: string, toLocalDir: string): Promise<Contents.IModel> {
+    return super.copy(localPath, toLocalDir).then(model => {
+      let documentId = ShareDrive.documentId(localPath);
+      let newDocumentId = ShareDrive.documentId(model.path);
+      ShareModelDB.copyDocument(this._pool, this._settings.collection, documentId, newDocumentId)
+        .catch(error => {
+          this._moveFailed.emit({ operation: 'copy', path: localPath, error });
+        });
+      return model;
+    });
+  }
+
+  /**
+   * List the paths of the files in a directory and its
+   * subdirectories, or just the path of a file.
+   */
+  private _files(model: Contents.IModel): Promise<string[]> {
+    if (model.type !== 'directory') {
+      return Promise.resolve([model.path]);
+    }
+    return this.get(model.path, { content: true }).then(directory => {
+      let children = (directory.content || []) as Contents.IModel[];
+      return Promise.all(children.map(child => this._files(child)));
+    }).then(lists => {
+      return ([] as string[]).concat(...lists);
+    });
+  }
+
+  /**
+   * Get the open database of a file, if any.
+   */
+  private _openModelDB(localPath: string): ShareModelDB | null {
+    let documentId = ShareDrive.documentId(localPath);
+    let modelDB = this._modelDBs[documentId];
+    if (modelDB && modelDB.isDisposed) {
+      delete this._modelDBs[documentId];
+      return null;
+    }
+    return modelDB || null;
+  }
+
+  /**
+   * Get the open database of a file, once it has connected, if
+   * the ShareDB server handles its save and reload requests.
+   */
+  private _servedModelDB(localPath: string): Promise<ShareModelDB | null> {
+    let modelDB = this._openModelDB(localPath);
+    if (!modelDB) {
+      return Promise.resolve(null);
     }
+    return modelDB.connected.then(() => {
+      return modelDB!.handlesRequests ? modelDB : null;
+    });
+  }
+
+  /**
+   * Forward the failed ops of a database.
+   */
+  private _onOpFailed(sender: ShareModelDB, args: ShareModelDB.IOpFailedArgs): void {
+    this._opFailed.emit(args);
+  }
+
+  /**
+   * Forward the moves of the open documents.
+   */
+  private _onDocumentMoved(sender: ShareModelDB, args: ShareModelDB.IDocumentMovedArgs): void {
+    this._documentMoved.emit(args);
+  }
+
+  private _settings: ShareDrive.ISettings;
+  private _pool: ConnectionPool;
+  private _createSocket: ((url: string) => any) | undefined;
+  private _localCollaborator: ICollaborator;
+  private _opFailed = new Signal<this, ShareModelDB.IOpFailedArgs>(this);
+  private _documentMoved = new Signal<this, ShareModelDB.IDocumentMovedArgs>(this);
+  private _moveFailed = new Signal<this, ShareDrive.IMoveFailedArgs>(this);
+  private _modelDBs: { [documentId: string]: ShareModelDB } = Object.create(null);
+}
+
+/**
+ * A namespace for `ShareDrive` statics.
+ */
+export
+namespace ShareDrive {
+  /**
+   * The options used to create a `ShareDrive`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The initial connection settings.
+     */
+    settings?: ISettings;
+
+    /**
+     * A function which opens a socket to the server,
+     * for connecting through something other than a `WebSocket`.
+     */
+    createSocket?: (url: string) => any;
+  }
+
+  /**
+   * The settings for connecting documents to the ShareDB server.
+   */
+  export
+  interface ISettings {
+    /**
+     * The WebSocket URL of the ShareDB server.
+     */
+    url: string;
+
+    /**
+     * The ShareDB collection which holds the drive documents.
+     */
+    collection: string;
+
+    /**
+     * The policy for reconnecting after the connection drops.
+     */
+    reconnect: ConnectionPool.IReconnectPolicy;
+
+    /**
+     * The name shown to collaborators for the local user.
+     */
+    displayName: string;
+
+    /**
+     * Whether each notebook cell is stored in its own document,
+     * rather than in the document of the notebook.
+     */
+    cellDocuments: boolean;
+  }
+
+  /**
+   * The arguments for the `moveFailed` signal.
+   */
+  export
+  interface IMoveFailedArgs {
+    /**
+     * The file operation whose documents failed to follow it.
+     */
+    operation: 'rename' | 'delete' | 'copy';
+
+    /**
+     * The local path of the file before the operation.
+     */
+    path: string;
+
+    /**
+     * The error of the ShareDB server or connection.
+     */
+    error: Error;
+  }
+
+  /**
+   * The settings used when none are given,
+   * matching the defaults of the settings schema.
+   */
+  export
+  const defaultSettings: ISettings = {
+    url: 'ws://localhost:8080',
+    collection: 'jupyterlab',
+    reconnect: { enabled: true, interval: 1000, maxInterval: 30000 },
+    displayName: '',
+    cellDocuments: false
+  };
+
+  /**
+   * Compute the ShareDB document id for a path in the drive.
+   *
+   * @param path: the local path of a file in the drive.
+   *
+   * @returns a document id which is the same for every client
+   *   and across reloads, as long as the file is not moved.
+   *
+   * #### Notes
+   * Empty and `.` segments are dropped, so `/analysis//run.ipynb`
+   * and `analysis/run.ipynb` map onto the same document.
+   *
+   * The `%` and `#` characters are escaped as `%25` and `%23`, so that
+   * the first `#` of an id always separates the id of the document of a
+   * file from the path of one of its separate views, as in
+   * `issue%2312.ipynb#cells.a` for a cell of `issue#12.ipynb`.
+   */
+  export
+  function documentId(path: string): string {
+    return path.split('/').filter(part => part && part !== '.').join('/')
+      .replace(/%/g, '%25').replace(/#/g, '%23');
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Create a connection pool for the given settings.
+   */
+  export
+  function createPool(settings: ShareDrive.ISettings, createSocket?: (url: string) => any): ConnectionPool {
+    return new ConnectionPool({
+      url: settings.url,
+      reconnect: settings.reconnect,
+      createSocket
+    });
   }
 }
@@ -0,0 +1,317 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONObject
+} from '@phosphor/coreutils';
+
+import {
+  IDisposable
+} from '@phosphor/disposable';
+
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+import {
+  ConnectionPool
+} from './connection';
+
+import {
+  IReference, diff, isReference
+} from './diff';
+
+import {
+  ShareModelDB
+} from './modeldb';
+
+
+/**
+ * The history of the document of a `ShareModelDB`.
+ *
+ * #### Notes
+ * The ShareDB server in the `server` directory records each change
+ * to a document, and to the documents of its separate views, in the
+ * history document of its file. The snapshots of the documents at
+ * the version after each change are fetched from the op log of ShareDB.
+ */
+export
+class ShareHistory implements IDisposable {
+  /**
+   * Construct a new history.
+   */
+  constructor(options: ShareHistory.IOptions) {
+    this.modelDB = options.modelDB;
+    this._pool = this.modelDB.pool;
+    this._doc = this._pool.acquire(this.modelDB.collection, ShareHistory.historyId(this.modelDB.documentId));
+    this._doc.on('load', this._onChange);
+    this._doc.on('create', this._onChange);
+    this._doc.on('op batch', this._onChange);
+    this._doc.subscribe();
+  }
+
+  /**
+   * The database whose document is shown.
+   */
+  readonly modelDB: ShareModelDB;
+
+  /**
+   * The changes to the document, from the oldest to the latest.
+   */
+  get entries(): ReadonlyArray<ShareHistory.IEntry> {
+    let data = this._doc.data;
+    return data && Array.isArray(data.entries) ? data.entries : [];
+  }
+
+  /**
+   * A signal emitted when changes are added to the history.
+   */
+  get changed(): ISignal<this, void> {
+    return this._changed;
+  }
+
+  /**
+   * Test whether the history has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Fetch the data of the document as it was after a change.
+   *
+   * @param index: the index of the change in `entries`.
+   *
+   * @returns a promise resolved with the data, in which the
+   *   references to the documents of separate views are
+   *   replaced by their data as of the same change.
+   */
+  snapshot(index: number): Promise<JSONObject> {
+    let entry = this.entries[index];
+    if (!entry) {
+      return Promise.reject(Error(`There is no change at index ${index}`));
+    }
+    // Fetch each document at its version after the
+    // latest of its changes up to this one.
+    let versions: { [documentId: string]: number } = {};
+    for (let { documentId, version } of this.entries.slice(0, index + 1)) {
+      versions[documentId] = version + 1;
+    }
+    let { collection, documentId } = this.modelDB;
+    return Private.fetchData(this._doc.connection, collection, documentId, versions);
+  }
+
+  /**
+   * Bring the document back to the state after a change.
+   *
+   * @param index: the index of the change in `entries`.
+   *
+   * @returns a promise resolved once the ops have been submitted.
+   *
+   * #### Notes
+   * The changes are submitted as ops on the live documents,
+   * so they reach every collaborator, and are themselves
+   * recorded in the history.
+   */
+  restore(index: number): Promise<void> {
+    return this.snapshot(index).then(data => {
+      let { pool, collection, documentId } = this.modelDB;
+      return Private.update(pool, collection, documentId, data);
+    });
+  }
+
+  /**
+   * Dispose of the resources held by the history.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._doc.removeListener('load', this._onChange);
+    this._doc.removeListener('create', this._onChange);
+    this._doc.removeListener('op batch', this._onChange);
+    this._pool.release(this._doc);
+    Signal.clearData(this);
+  }
+
+  /**
+   * Handle a change to the history document.
+   */
+  private _onChange = () => {
+    this._changed.emit(void 0);
+  }
+
+  private _pool: ConnectionPool;
+  private _doc: any;
+  private _isDisposed = false;
+  private _changed = new Signal<this, void>(this);
+}
+
+
+/**
+ * A namespace for `ShareHistory` statics.
+ */
+export
+namespace ShareHistory {
+  /**
+   * Options for creating a `ShareHistory`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The database whose document is shown.
+     */
+    modelDB: ShareModelDB;
+  }
+
+  /**
+   * A collaborator who made a change.
+   */
+  export
+  interface IAuthor {
+    /**
+     * The id of the user.
+     */
+    readonly userId: string;
+
+    /**
+     * The name shown for the user.
+     */
+    readonly displayName: string;
+
+    /**
+     * The color of the user.
+     */
+    readonly color: string;
+  }
+
+  /**
+   * A change to a document.
+   *
+   * #### Notes
+   * The consecutive ops of a collaborator on a document within a
+   * short time are recorded by the server as a single change.
+   */
+  export
+  interface IEntry {
+    /**
+     * The id of the changed document, which is the document
+     * of the file or of one of its separate views.
+     */
+    readonly documentId: string;
+
+    /**
+     * The version of the document which the last op
+     * of the change was applied to.
+     */
+    readonly version: number;
+
+    /**
+     * The time of the last op of the change,
+     * in milliseconds since the epoch.
+     */
+    readonly time: number;
+
+    /**
+     * The collaborator who made the change, or `null`
+     * if it was made by the server or is unknown.
+     */
+    readonly author: IAuthor | null;
+  }
+
+  /**
+   * Get the id of the history document of a document.
+   *
+   * #### Notes
+   * The documents of separate views share the history document
+   * of their file.
+   */
+  export
+  function historyId(documentId: string): string {
+    return `${ShareModelDB.baseId(documentId)}#$history`;
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Fetch the data of a document at a version, with the references to
+   * the documents of separate views replaced by their data at theirs.
+   *
+   * #### Notes
+   * A document without a version did not exist yet, and has no data.
+   */
+  export
+  function fetchData(connection: any, collection: string, documentId: string, versions: { [documentId: string]: number }): Promise<JSONObject> {
+    return new Promise<any>((resolve, reject) => {
+      let version = versions[documentId] || 0;
+      connection.fetchSnapshot(collection, documentId, version, (err: any, snapshot: any) => {
+        err ? reject(err) : resolve(snapshot.data);
+      });
+    }).then(data => {
+      return resolveReferences(connection, collection, documentId, versions, data);
+    }).then(data => {
+      let result: JSONObject = {};
+      for (let key of Object.keys(data || {})) {
+        if (key[0] !== '$') {
+          result[key] = data[key];
+        }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Replace the references to the documents of separate views in a value.
+   */
+  function resolveReferences(connection: any, collection: string, documentId: string, versions: { [documentId: string]: number }, value: any): Promise<any> {
+    if (typeof value !== 'object' || value === null) {
+      return Promise.resolve(value);
+    }
+    if (isReference(value, documentId)) {
+      return fetchData(connection, collection, value.documentId, versions);
+    }
+    let copy: any = Array.isArray(value) ? [] : {};
+    return Promise.all(Object.keys(value).map(key => {
+      return resolveReferences(connection, collection, documentId, versions, value[key]).then(resolved => {
+        copy[key] = resolved;
+      });
+    })).then(() => copy);
+  }
+
+  /**
+   * Submit the ops which bring a document, and the
+   * documents of its separate views, to the given data.
+   */
+  export
+  function update(pool: ConnectionPool, collection: string, documentId: string, data: JSONObject): Promise<void> {
+    let doc = pool.acquire(collection, documentId);
+    return new Promise<void>((resolve, reject) => {
+      doc.fetch((err: any) => { err ? reject(err) : resolve(void 0); });
+    }).then(() => {
+      let references: IReference[] = [];
+      let ops = diff(doc.data, data, [], { documentId, references });
+      return Promise.all([
+        new Promise<void>((resolve, reject) => {
+          if (!ops.length) {
+            resolve(void 0);
+            return;
+          }
+          doc.submitOp(ops, (err: any) => { err ? reject(err) : resolve(void 0); });
+        }),
+        ...references.map(reference => {
+          return update(pool, collection, reference.documentId, reference.value);
+        })
+      ]);
+    }).then(() => {
+      pool.release(doc);
+    }, err => {
+      pool.release(doc);
+      throw err;
+    });
+  }
+}
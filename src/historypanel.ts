@@ -0,0 +1,267 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONObject, JSONValue
+} from '@phosphor/coreutils';
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  Dialog, showDialog
+} from '@jupyterlab/apputils';
+
+import {
+  ShareHistory
+} from './history';
+
+
+/**
+ * The class name added to the history panel.
+ */
+const HISTORY_CLASS = 'jp-ShareHistory';
+
+/**
+ * The class name added to the toolbar of the history panel.
+ */
+const TOOLBAR_CLASS = 'jp-ShareHistory-toolbar';
+
+/**
+ * The class name added to the description of the shown version.
+ */
+const LABEL_CLASS = 'jp-ShareHistory-label';
+
+/**
+ * The class name added to the preview of the shown version.
+ */
+const PREVIEW_CLASS = 'jp-ShareHistory-preview';
+
+/**
+ * The class name added to the cells of a notebook preview.
+ */
+const CELL_CLASS = 'jp-ShareHistory-cell';
+
+
+/**
+ * A panel which shows the document of a `ShareHistory`
+ * as it was after each change.
+ *
+ * #### Notes
+ * A slider scrubs through the changes, and the shown version
+ * can be restored. The panel disposes of its history.
+ */
+export
+class ShareHistoryPanel extends Widget {
+  /**
+   * Construct a new history panel.
+   */
+  constructor(options: ShareHistoryPanel.IOptions) {
+    super();
+    this.addClass(HISTORY_CLASS);
+    this.model = options.model;
+
+    let toolbar = document.createElement('div');
+    toolbar.className = TOOLBAR_CLASS;
+    this._slider = document.createElement('input');
+    this._slider.type = 'range';
+    this._slider.min = '0';
+    this._slider.addEventListener('input', this._onSlide);
+    this._label = document.createElement('span');
+    this._label.className = LABEL_CLASS;
+    this._restore = document.createElement('button');
+    this._restore.textContent = 'Restore this version';
+    this._restore.addEventListener('click', this._onRestore);
+    toolbar.appendChild(this._slider);
+    toolbar.appendChild(this._label);
+    toolbar.appendChild(this._restore);
+    this._preview = document.createElement('div');
+    this._preview.className = PREVIEW_CLASS;
+    this.node.appendChild(toolbar);
+    this.node.appendChild(this._preview);
+
+    this.model.changed.connect(this._onChanged, this);
+    this._onChanged();
+  }
+
+  /**
+   * The history shown by the panel.
+   */
+  readonly model: ShareHistory;
+
+  /**
+   * The index of the change which is shown, or `-1` if there is none.
+   */
+  get index(): number {
+    return this.model.entries.length ? Number(this._slider.value) : -1;
+  }
+
+  /**
+   * Dispose of the resources held by the panel.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._slider.removeEventListener('input', this._onSlide);
+    this._restore.removeEventListener('click', this._onRestore);
+    this.model.dispose();
+    super.dispose();
+  }
+
+  /**
+   * Follow the latest change as changes are added.
+   */
+  private _onChanged(): void {
+    let count = this.model.entries.length;
+    let atEnd = this._count === 0 || Number(this._slider.value) === this._count - 1;
+    this._count = count;
+    this._slider.max = String(Math.max(count - 1, 0));
+    this._slider.disabled = count === 0;
+    this._restore.disabled = count === 0;
+    if (atEnd && count) {
+      this._slider.value = String(count - 1);
+      this._show();
+    } else if (!count) {
+      this._label.textContent = 'No changes have been recorded';
+    } else {
+      this._describe();
+    }
+  }
+
+  /**
+   * Show the change picked with the slider.
+   */
+  private _onSlide = () => {
+    this._show();
+  }
+
+  /**
+   * Restore the shown version, once the user has confirmed it.
+   */
+  private _onRestore = () => {
+    let index = this.index;
+    if (index === -1) {
+      return;
+    }
+    showDialog({
+      title: 'Restore Version',
+      body: `Bring the document back to version ${index + 1} for every collaborator?`,
+      buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'RESTORE' })]
+    }).then(result => {
+      if (!result.button.accept || this.isDisposed) {
+        return undefined;
+      }
+      return this.model.restore(index);
+    }).catch(reason => {
+      showDialog({
+        title: 'Restore Failed',
+        body: reason.message,
+        buttons: [Dialog.okButton()]
+      });
+    });
+  }
+
+  /**
+   * Describe the shown change.
+   */
+  private _describe(): void {
+    let index = this.index;
+    let entry = this.model.entries[index];
+    let author = entry.author ? entry.author.displayName || 'Anonymous' : 'Server';
+    let time = new Date(entry.time).toLocaleString();
+    this._label.textContent = `Version ${index + 1} of ${this._count} · ${time} · ${author}`;
+    this._label.style.borderColor = entry.author ? entry.author.color : '';
+  }
+
+  /**
+   * Fetch and show the snapshot after the picked change.
+   */
+  private _show(): void {
+    this._describe();
+    let index = this.index;
+    let request = ++this._request;
+    this.model.snapshot(index).then(data => {
+      if (request === this._request && !this.isDisposed) {
+        this._preview.textContent = '';
+        this._preview.appendChild(Private.render(data));
+      }
+    }).catch(reason => {
+      if (request === this._request && !this.isDisposed) {
+        this._preview.textContent = reason.message;
+      }
+    });
+  }
+
+  private _slider: HTMLInputElement;
+  private _label: HTMLElement;
+  private _restore: HTMLButtonElement;
+  private _preview: HTMLElement;
+  private _count = 0;
+  private _request = 0;
+}
+
+
+/**
+ * A namespace for `ShareHistoryPanel` statics.
+ */
+export
+namespace ShareHistoryPanel {
+  /**
+   * Options for creating a `ShareHistoryPanel`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The history to show.
+     */
+    model: ShareHistory;
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Test whether a value is a JSON object, rather than a list.
+   */
+  export
+  function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Render the data of a document for the preview.
+   *
+   * #### Notes
+   * Notebooks are shown as the sources of their cells, text files
+   * as their text, and anything else as JSON.
+   */
+  export
+  function render(data: JSONObject): HTMLElement {
+    let cells = data['cells'] as JSONObject;
+    let order = data['cellOrder'];
+    if (Array.isArray(order) && Private.isObject(cells)) {
+      let node = document.createElement('div');
+      for (let id of order as string[]) {
+        let cell = cells[id] as JSONObject;
+        if (!Private.isObject(cell)) {
+          continue;
+        }
+        let cellNode = document.createElement('pre');
+        cellNode.className = CELL_CLASS;
+        cellNode.setAttribute('data-type', String(cell['type'] || 'code'));
+        cellNode.textContent = String(cell['value'] || '');
+        node.appendChild(cellNode);
+      }
+      return node;
+    }
+    let node = document.createElement('pre');
+    let value: JSONValue = data['value'];
+    node.textContent = typeof value === 'string' ? value : JSON.stringify(data, null, 2);
+    return node;
+  }
+}
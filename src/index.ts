@@ -1,10 +1,22 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  JSONObject
+} from '@phosphor/coreutils';
+
 import {
   ILayoutRestorer, JupyterLab, JupyterLabPlugin
 } from '@jupyterlab/application';
 
+import {
+  Dialog, ICommandPalette, showDialog
+} from '@jupyterlab/apputils';
+
+import {
+  ISettingRegistry
+} from '@jupyterlab/coreutils';
+
 import {
   IDocumentManager
 } from '@jupyterlab/docmanager';
@@ -17,6 +29,38 @@ import {
   ShareDrive
 } from './drive';
 
+import {
+  ShareHistory
+} from './history';
+
+import {
+  ShareHistoryPanel
+} from './historypanel';
+
+import {
+  ShareModelDB
+} from './modeldb';
+
+import {
+  ShareStatus
+} from './status';
+
+import '../style/index.css';
+
+/**
+ * The command IDs used by the plugin.
+ */
+namespace CommandIDs {
+  export
+  const reconnect = 'sharedb:reconnect';
+
+  export
+  const showHistory = 'sharedb:show-history';
+
+  export
+  const toggleBlame = 'sharedb:toggle-blame';
+}
+
 /**
  * ShareDrive filebrowser plugin state namespace.
  */
@@ -28,7 +72,7 @@ const NAMESPACE = 'sharedb-filebrowser';
  */
 const fileBrowserPlugin: JupyterLabPlugin<void> = {
   id: 'jupyter.extensions.sharedb',
-  requires: [IDocumentManager, IFileBrowserFactory, ILayoutRestorer],
+  requires: [IDocumentManager, IFileBrowserFactory, ILayoutRestorer, ISettingRegistry, ICommandPalette],
   activate: activateFileBrowser,
   autoStart: true
 };
@@ -36,13 +80,62 @@ const fileBrowserPlugin: JupyterLabPlugin<void> = {
 /**
  * Activate the file browser.
  */
-function activateFileBrowser(app: JupyterLab, manager: IDocumentManager, factory: IFileBrowserFactory, restorer: ILayoutRestorer): void {
+function activateFileBrowser(app: JupyterLab, manager: IDocumentManager, factory: IFileBrowserFactory, restorer: ILayoutRestorer, settingRegistry: ISettingRegistry, palette: ICommandPalette): void {
 
   let { commands } = app;
   // Add the Google Drive backend to the contents manager.
   let drive = new ShareDrive();
   manager.services.contents.addDrive(drive);
 
+  // Tell the user when the server rejects their changes.
+  drive.opFailed.connect((sender, args) => {
+    showDialog({
+      title: 'Changes Rejected',
+      body: `Your last changes to ${args.documentId} could not be saved ` +
+        `on the ShareDB server and have been undone: ${args.error.message}`,
+      buttons: [Dialog.okButton()]
+    });
+  });
+
+  // Close the documents which have been moved or deleted, since
+  // their models are bound to the old document, and reopen them.
+  drive.documentMoved.connect((sender, args) => {
+    let newPath = args.newDocumentId;
+    let paths = [args.documentId];
+    if (newPath !== null) {
+      // A local rename has already moved the widgets to the new path.
+      paths.push(newPath);
+    }
+    Promise.all(paths.map(path => {
+      return manager.closeFile(`${drive.name}:${path}`);
+    })).then(() => {
+      if (newPath !== null) {
+        manager.openOrReveal(`${drive.name}:${newPath}`);
+      }
+    }).catch(reason => {
+      Private.showError('Cannot Reopen File', reason);
+    });
+  });
+
+  // Tell the user when the documents of a file could not follow it.
+  drive.moveFailed.connect((sender, args) => {
+    Private.showError('Documents Not Updated',
+      `The documents of ${args.path} could not be updated ` +
+      `after the ${args.operation}: ${args.error.message}`);
+  });
+
+  // Keep the drive connection settings up to date,
+  // so that newly opened documents use the latest ones.
+  settingRegistry.load(fileBrowserPlugin.id).then(settings => {
+    let update = () => {
+      drive.settings = Private.driveSettings(settings.composite);
+    };
+    update();
+    settings.changed.connect(update);
+  }).catch(reason => {
+    Private.showError('Cannot Load Settings', reason);
+  });
+
   // Create the file browser.
   let browser = factory.createFileBrowser(NAMESPACE, {
     commands: commands,
@@ -50,6 +143,66 @@ function activateFileBrowser(app: JupyterLab, manager: IDocumentManager, factory
   });
   browser.title.label = 'Share';
 
+  // Show the sync status of the current Share document.
+  let status = new ShareStatus();
+  browser.toolbar.addItem('sharedb-status', status);
+  app.shell.currentChanged.connect((sender, args) => {
+    let widget = args.newValue;
+    let context = widget ? manager.contextForWidget(widget) : undefined;
+    let modelDB = context ? context.model.modelDB : null;
+    status.model = modelDB instanceof ShareModelDB ? modelDB : null;
+    commands.notifyCommandChanged(CommandIDs.reconnect);
+    commands.notifyCommandChanged(CommandIDs.showHistory);
+    commands.notifyCommandChanged(CommandIDs.toggleBlame);
+  });
+
+  commands.addCommand(CommandIDs.reconnect, {
+    label: 'Reconnect to ShareDB Server',
+    isEnabled: () => !!status.model && !status.model.isDisposed,
+    execute: () => {
+      if (status.model && !status.model.isDisposed) {
+        status.model.forceReconnect();
+      }
+    }
+  });
+  palette.addItem({ command: CommandIDs.reconnect, category: 'ShareDB' });
+
+  commands.addCommand(CommandIDs.showHistory, {
+    label: 'Show Document History',
+    isEnabled: () => !!status.model && !status.model.isDisposed,
+    execute: () => {
+      let model = status.model;
+      if (!model || model.isDisposed) {
+        return;
+      }
+      let panel = new ShareHistoryPanel({
+        model: new ShareHistory({ modelDB: model })
+      });
+      panel.id = `sharedb-history-${++Private.historyCount}`;
+      panel.title.label = `History: ${model.documentId}`;
+      panel.title.closable = true;
+      // The history stays with the old document when it is moved.
+      model.documentMoved.connect(() => { panel.dispose(); });
+      app.shell.addToMainArea(panel);
+      app.shell.activateById(panel.id);
+    }
+  });
+  palette.addItem({ command: CommandIDs.showHistory, category: 'ShareDB' });
+
+  commands.addCommand(CommandIDs.toggleBlame, {
+    label: 'Show Authors of Text',
+    isEnabled: () => !!status.model && !status.model.isDisposed,
+    isToggled: () => !!status.model && !status.model.isDisposed && status.model.showBlame,
+    execute: () => {
+      let model = status.model;
+      if (model && !model.isDisposed) {
+        model.showBlame = !model.showBlame;
+        commands.notifyCommandChanged(CommandIDs.toggleBlame);
+      }
+    }
+  });
+  palette.addItem({ command: CommandIDs.toggleBlame, category: 'ShareDB' });
+
   // Add the file browser widget to the application restorer.
   restorer.add(browser, NAMESPACE);
   app.shell.addToLeftArea(browser, { rank: 102 });
@@ -61,3 +214,53 @@ function activateFileBrowser(app: JupyterLab, manager: IDocumentManager, factory
  * Export the plugin as default.
  */
 export default fileBrowserPlugin;
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The number of history panels which have been opened,
+   * used to give each one a unique id.
+   */
+  export
+  let historyCount = 0;
+
+  /**
+   * Show an error message, or the message of an error, in a dialog.
+   */
+  export
+  function showError(title: string, reason: any): void {
+    showDialog({
+      title,
+      body: reason instanceof Error ? reason.message : String(reason),
+      buttons: [Dialog.okButton()]
+    });
+  }
+
+  /**
+   * Convert the plugin settings to `ShareDrive` settings,
+   * falling back to the defaults for missing values.
+   */
+  export
+  function driveSettings(composite: JSONObject): ShareDrive.ISettings {
+    let defaults = ShareDrive.defaultSettings;
+    let reconnect = (composite['reconnect'] || {}) as JSONObject;
+    return {
+      url: composite['url'] as string || defaults.url,
+      collection: composite['collection'] as string || defaults.collection,
+      reconnect: {
+        enabled: reconnect['enabled'] !== undefined ?
+          reconnect['enabled'] as boolean : defaults.reconnect.enabled,
+        interval: reconnect['interval'] !== undefined ?
+          reconnect['interval'] as number : defaults.reconnect.interval,
+        maxInterval: reconnect['maxInterval'] !== undefined ?
+          reconnect['maxInterval'] as number : defaults.reconnect.maxInterval
+      },
+      displayName: composite['displayName'] as string || defaults.displayName,
+      cellDocuments: composite['cellDocuments'] !== undefined ?
+        composite['cellDocuments'] as boolean : defaults.cellDocuments
+    };
+  }
+}
@@ -6,7 +6,7 @@ import {
 } from '@phosphor/coreutils';
 
 import {
-  ArrayExt, ArrayIterator, IIterator, IterableOrArrayLike, each, toArray
+  ArrayExt, ArrayIterator, IIterator, IterableOrArrayLike, toArray
 } from '@phosphor/algorithm';
 
 import {
@@ -21,6 +21,9 @@ import {
   SharePrimitive, isSubpath
 } from './share';
 
+declare let require: any;
+let json0 = require('sharedb/lib/client').types.defaultType;
+
 /**
  * A concrete implementation of [[IObservableList]].
  */
@@ -139,7 +142,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
     if (itemCmp(oldValue, value)) {
       return;
     }
-    this.doc.submitOp({
+    this.submitOp({
       p: [...this.path, index],
       ld: oldValue,
       li: value
@@ -164,7 +167,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
       return this._list.push(value);
     }
     let len = this.length;
-    this.doc.submitOp({
+    this.submitOp({
       p: [...this.path, len],
       li: value
     });
@@ -195,7 +198,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
       this._list.insert(index, value);
       return;
     }
-    this.doc.submitOp({
+    this.submitOp({
       p: [...this.path, index],
       li: value
     });
@@ -252,7 +255,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
       return undefined;
     }
     let oldValue = this.value[index];
-    this.doc.submitOp({
+    this.submitOp({
       p: [...this.path, index],
       ld: oldValue
     });
@@ -273,9 +276,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
       this._list.clear();
       return;
     }
-    while (this.length) {
-      this.remove(0);
-    }
+    this.removeRange(0, this.length);
   }
 
   /**
@@ -303,6 +304,10 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
     if (this.length <= 1 || fromIndex === toIndex) {
       return;
     }
+    this.submitOp({
+      p: [...this.path, fromIndex],
+      lm: toIndex
+    });
   }
 
   /**
@@ -322,13 +327,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
     if (this._list) {
       return this._list.pushAll(values);
     }
-    let idx = this.length;
-    each(values, value => {
-      this.doc.submitOp({
-        p: [...this.path, idx++],
-        li: value
-      });
-    });
+    this.insertAll(this.length, values);
     return this.length;
   }
 
@@ -355,13 +354,13 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
     if (this._list) {
       return this._list.insertAll(index, values);
     }
-    let idx = index;
-    each(values, value => {
-      this.doc.submitOp({
-        p: [...this.path, idx++],
-        li: value
-      });
+    let idx = Math.max(0, Math.min(index, this.length));
+    let ops = toArray(values).map((value, i) => {
+      return { p: [...this.path, idx + i], li: value };
     });
+    if (ops.length) {
+      this.submitOp(ops);
+    }
   }
 
   /**
@@ -386,61 +385,108 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
     if (this._list) {
       return this._list.removeRange(startIndex, endIndex);
     }
-    for (let i = startIndex; i < endIndex; i++) {
-      this.remove(startIndex);
+    let ops = this.value.slice(startIndex, endIndex).map((value: T) => {
+      return { p: [...this.path, startIndex], ld: value };
+    });
+    if (ops.length) {
+      this.submitOp(ops);
     }
     return this.length;
   }
 
   protected onOp(ops: any, isLocal: boolean) {
+    ops = ops.filter((op: any) => isSubpath(this.path, op.p));
     if (ops.length === 0) {
       return;
-    } else if (ops.length > 1) {
-      throw Error('Unexpected number of ops');
-    }
-    let op = ops[0];
-    if (!isSubpath(this.path, op.p)) {
-      return;
     }
+    // The ops have already been applied, so replay them one at a time
+    // on the list as it was before, to find the value of each change.
+    let list = Private.rewind<T>(this.value || [], ops, this.path) || [];
+    let changes: IObservableList.IChangedArgs<T>[] = [];
+    for (let op of ops) {
+      let relative = op.p.slice(this.path.length);
+      if (relative.length === 0) { // Replace case.
+        if (list.length) {
+          changes.push({
+            type: 'remove',
+            oldIndex: 0,
+            newIndex: -1,
+            oldValues: list,
+            newValues: []
+          });
+        }
+        list = JSONExt.deepCopy(op.oi || []) as T[];
+        if (list.length) {
+          changes.push({
+            type: 'add',
+            oldIndex: -1,
+            newIndex: 0,
+            oldValues: [],
+            newValues: list.slice()
+          });
+        }
+        continue;
+      }
 
-    let idx = op.p.slice(-1)[0];
-    if (op.li !== undefined && op.ld !== undefined) { // Set case.
-      this._changed.emit({
-        type: 'set',
-        oldIndex: idx,
-        newIndex: idx,
-        oldValues: [op.ld],
-        newValues: [op.li]
-      });
-    } else if (op.li !== undefined) { // Insert case.
-      this._changed.emit({
-        type: 'add',
-        oldIndex: -1,
-        newIndex: idx,
-        oldValues: [],
-        newValues: [op.li]
-      });
-    } else if (op.ld !== undefined) { // Delete case.
-      this._changed.emit({
-        type: 'remove',
-        oldIndex: idx,
-        newIndex: -1,
-        oldValues: [op.ld],
-        newValues: []
-      });
-    } else if (op.lm !== undefined) { // Move case.
-      this._changed.emit({
-        type: 'move',
-        oldIndex: idx,
-        newIndex: op.lm,
-        oldValues: [this.value[op.lm]],
-        newValues: [this.value[op.lm]]
-      });
+      let idx = relative[0];
+      if (relative.length > 1) { // Edit within an item.
+        let oldValue = JSONExt.deepCopy(list[idx]) as T;
+        list = json0.apply(list, [{ ...op, p: relative }]);
+        changes.push({
+          type: 'set',
+          oldIndex: idx,
+          newIndex: idx,
+          oldValues: [oldValue],
+          newValues: [list[idx]]
+        });
+        continue;
+      }
+
+      if (op.li !== undefined && op.ld !== undefined) { // Set case.
+        changes.push({
+          type: 'set',
+          oldIndex: idx,
+          newIndex: idx,
+          oldValues: [op.ld],
+          newValues: [op.li]
+        });
+      } else if (op.li !== undefined) { // Insert case.
+        changes.push({
+          type: 'add',
+          oldIndex: -1,
+          newIndex: idx,
+          oldValues: [],
+          newValues: [op.li]
+        });
+      } else if (op.ld !== undefined) { // Delete case.
+        changes.push({
+          type: 'remove',
+          oldIndex: idx,
+          newIndex: -1,
+          oldValues: [op.ld],
+          newValues: []
+        });
+      } else if (op.lm !== undefined) { // Move case.
+        changes.push({
+          type: 'move',
+          oldIndex: idx,
+          newIndex: op.lm,
+          oldValues: [list[idx]],
+          newValues: [list[idx]]
+        });
+      }
+      list = json0.apply(list, [{ ...op, p: relative }]);
+    }
+    for (let change of Private.coalesce(changes)) {
+      this._changed.emit(change);
     }
   }
 
   protected copyFromDoc(): void {
     let value: any[] = this.value;
+    if (JSONExt.deepEqual(toArray(this._list) as JSONValue, value)) {
+      return;
+    }
     this.clear();
     this._changed.emit({
       type: 'add',
@@ -452,7 +498,7 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
   }
 
   protected copyToDoc(): void {
-    this.doc.submitOp({
+    this.submitOp({
       p: this.path,
       oi: toArray(this._list)
     });
@@ -466,3 +512,59 @@ class ShareList<T extends JSONValue> extends SharePrimitive implements IObservab
   private _changed = new Signal<this, IObservableList.IChangedArgs<T>>(this);
   private _list: ObservableList<T> | null = new ObservableList<T>();
 }
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Recover the value of a list from before some ops were applied.
+   *
+   * @param list - the current value of the list.
+   *
+   * @param ops - the json0 op components which have been applied.
+   *
+   * @param path - the path of the list in the document.
+   *
+   * @returns a copy of the list as it was before `ops`.
+   */
+  export
+  function rewind<T extends JSONValue>(list: T[], ops: any[], path: Array<string | number>): T[] {
+    let inverse = json0.invert(ops.filter(op => isSubpath(path, op.p)).map(op => {
+      return { ...op, p: op.p.slice(path.length) };
+    }));
+    return json0.apply(JSONExt.deepCopy(list as JSONValue), inverse);
+  }
+
+  /**
+   * Merge adjacent list changes which can be described by a single change,
+   * such as the components of a multi-item insertion.
+   */
+  export
+  function coalesce<T extends JSONValue>(changes: IObservableList.IChangedArgs<T>[]): IObservableList.IChangedArgs<T>[] {
+    let result: IObservableList.IChangedArgs<T>[] = [];
+    for (let change of changes) {
+      let last = result[result.length - 1];
+      if (last && last.type === change.type) {
+        if (change.type === 'add' &&
+            change.newIndex === last.newIndex + last.newValues.length) {
+          last.newValues.push(...change.newValues);
+          continue;
+        }
+        if (change.type === 'remove' && change.oldIndex === last.oldIndex) {
+          last.oldValues.push(...change.oldValues);
+          continue;
+        }
+        if (change.type === 'set' &&
+            change.oldIndex === last.oldIndex + last.oldValues.length) {
+          last.oldValues.push(...change.oldValues);
+          last.newValues.push(...change.newValues);
+          continue;
+        }
+      }
+      result.push(change);
+    }
+    return result;
+  }
+}
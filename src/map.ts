@@ -0,0 +1,330 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONExt, JSONObject, JSONValue
+} from '@phosphor/coreutils';
+
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+import {
+  IObservableJSON, IObservableMap, ObservableJSON
+} from '@jupyterlab/coreutils';
+
+import {
+  SharePrimitive, isSubpath
+} from './share';
+
+declare let require: any;
+let json0 = require('sharedb/lib/client').types.defaultType;
+
+
+/**
+ * A concrete implementation of an [[IObservableJSON]]
+ * that supports collaborative editing through ShareDB.
+ */
+export
+class ShareMap extends SharePrimitive implements IObservableJSON {
+  constructor(shareDoc: any, path: Array<string | number>) {
+    super(shareDoc, path);
+    this._map.changed.connect(this._onChange, this);
+    this.connected.then(() => {
+      this._map.changed.disconnect(this._onChange, this);
+      this._map.dispose();
+      this._map = null;
+    });
+  }
+
+  /**
+   * The type of the Observable.
+   */
+  get type(): 'Map' {
+    return 'Map';
+  }
+
+  /**
+   * A signal emitted when the map has changed.
+   */
+  get changed(): ISignal<this, IObservableMap.IChangedArgs<JSONValue>> {
+    return this._changed;
+  }
+
+  /**
+   * The number of key-value pairs in the map.
+   */
+  get size(): number {
+    if (this._map) {
+      return this._map.size;
+    }
+    return Object.keys(this.value).length;
+  }
+
+  /**
+   * Set a key-value pair in the map
+   *
+   * @param key - The key to set.
+   *
+   * @param value - The value for the key.
+   *
+   * @returns the old value for the key, or undefined
+   *   if that did not exist.
+   *
+   * @throws if the new value is undefined.
+   *
+   * #### Notes
+   * This is a no-op if the value does not change.
+   */
+  set(key: string, value: JSONValue): JSONValue | undefined {
+    if (this._map) {
+      return this._map.set(key, value);
+    }
+    if (value === undefined) {
+      throw Error('Cannot set an undefined value, use delete');
+    }
+    let oldValue = this.get(key);
+    if (oldValue !== undefined && JSONExt.deepEqual(oldValue, value)) {
+      return oldValue;
+    }
+    let op: any = { p: [...this.path, key], oi: value };
+    if (oldValue !== undefined) {
+      op.od = oldValue;
+    }
+    this.submitOp(op);
+    return oldValue;
+  }
+
+  /**
+   * Get a value for a given key.
+   *
+   * @param key - the key.
+   *
+   * @returns the value for that key.
+   */
+  get(key: string): JSONValue | undefined {
+    if (this._map) {
+      return this._map.get(key);
+    }
+    return this.has(key) ? this.value[key] : undefined;
+  }
+
+  /**
+   * Check whether the map has a key.
+   *
+   * @param key - the key to check.
+   *
+   * @returns `true` if the map has the key, `false` otherwise.
+   */
+  has(key: string): boolean {
+    if (this._map) {
+      return this._map.has(key);
+    }
+    return Private.hasKey(this.value, key);
+  }
+
+  /**
+   * Get a list of the keys in the map.
+   *
+   * @returns - a list of keys.
+   */
+  keys(): string[] {
+    if (this._map) {
+      return this._map.keys();
+    }
+    return Object.keys(this.value);
+  }
+
+  /**
+   * Get a list of the values in the map.
+   *
+   * @returns - a list of values.
+   */
+  values(): JSONValue[] {
+    if (this._map) {
+      return this._map.values();
+    }
+    return this.keys().map(key => this.value[key]);
+  }
+
+  /**
+   * Remove an entry from the map.
+   *
+   * @param key - the key to remove.
+   *
+   * @returns the value of the given key,
+   *   or undefined if that does not exist.
+   */
+  delete(key: string): JSONValue | undefined {
+    if (this._map) {
+      return this._map.delete(key);
+    }
+    if (!this.has(key)) {
+      return undefined;
+    }
+    let oldValue = this.get(key);
+    this.submitOp({ p: [...this.path, key], od: oldValue });
+    return oldValue;
+  }
+
+  /**
+   * Set the ShareMap to an empty map.
+   */
+  clear(): void {
+    if (this._map) {
+      this._map.clear();
+      return;
+    }
+    let ops = this.keys().map(key => {
+      return { p: [...this.path, key], od: this.value[key] };
+    });
+    if (ops.length) {
+      this.submitOp(ops);
+    }
+  }
+
+  /**
+   * Serialize the model to JSON.
+   */
+  toJSON(): JSONObject {
+    if (this._map) {
+      return this._map.toJSON();
+    }
+    return JSONExt.deepCopy(this.value) as JSONObject;
+  }
+
+  /**
+   * Dispose of the resources held by the map.
+   */
+  dispose(): void {
+    Signal.clearData(this);
+    super.dispose();
+  }
+
+  protected copyFromDoc(): void {
+    let oldValue = this._map.toJSON();
+    this._emitDiff(oldValue, this.value);
+  }
+
+  protected copyToDoc(): void {
+    this.submitOp({p: this.path, oi: this._map.toJSON()});
+  }
+
+  protected onOp(ops: any, isLocal: boolean) {
+    let nested: { [key: string]: boolean } = {};
+    for (let op of ops) {
+      if (!isSubpath(this.path, op.p)) {
+        continue;
+      }
+      if (op.p.length === this.path.length) { // Replace case.
+        this._emitDiff(op.od || {}, op.oi || {});
+        continue;
+      }
+      let key: string = op.p[this.path.length];
+      if (op.p.length > this.path.length + 1) { // Nested edit case.
+        // Report the nested edits to a key as a single change.
+        if (nested[key]) {
+          continue;
+        }
+        nested[key] = true;
+        this._changed.emit({
+          type: 'change',
+          key,
+          oldValue: this._oldValue(key, ops),
+          newValue: this.get(key)
+        });
+      } else if (op.oi !== undefined && op.od !== undefined) { // Set case.
+        this._changed.emit({
+          type: 'change',
+          key,
+          oldValue: op.od,
+          newValue: op.oi
+        });
+      } else if (op.oi !== undefined) { // Insert case.
+        this._changed.emit({
+          type: 'add',
+          key,
+          oldValue: undefined,
+          newValue: op.oi
+        });
+      } else if (op.od !== undefined) { // Delete case.
+        this._changed.emit({
+          type: 'remove',
+          key,
+          oldValue: op.od,
+          newValue: undefined
+        });
+      }
+    }
+  }
+
+  /**
+   * Compute the value of a key before an op, by applying
+   * the inverse of the components which affect the key.
+   */
+  private _oldValue(key: string, ops: any[]): JSONValue | undefined {
+    let depth = this.path.length;
+    let inverse = json0.invert(ops.filter((op: any) => {
+      return op.p.length > depth && op.p[depth] === key;
+    }).map((op: any) => {
+      return { ...op, p: op.p.slice(depth + 1) };
+    }));
+    let newValue = this.get(key);
+    let current = newValue === undefined ? null : JSONExt.deepCopy(newValue);
+    return json0.apply(current, inverse);
+  }
+
+  /**
+   * Emit the changes needed to go from one object to another.
+   */
+  private _emitDiff(oldValue: JSONObject, newValue: JSONObject): void {
+    for (let key of Object.keys(oldValue)) {
+      if (!Private.hasKey(newValue, key)) {
+        this._changed.emit({
+          type: 'remove',
+          key,
+          oldValue: oldValue[key],
+          newValue: undefined
+        });
+      }
+    }
+    for (let key of Object.keys(newValue)) {
+      if (!Private.hasKey(oldValue, key)) {
+        this._changed.emit({
+          type: 'add',
+          key,
+          oldValue: undefined,
+          newValue: newValue[key]
+        });
+      } else if (!JSONExt.deepEqual(oldValue[key], newValue[key])) {
+        this._changed.emit({
+          type: 'change',
+          key,
+          oldValue: oldValue[key],
+          newValue: newValue[key]
+        });
+      }
+    }
+  }
+
+  private _onChange(source: ObservableJSON, args: IObservableMap.IChangedArgs<JSONValue>): void {
+    this._changed.emit(args);
+  }
+
+  private _changed = new Signal<this, IObservableMap.IChangedArgs<JSONValue>>(this);
+  private _map: ObservableJSON | null = new ObservableJSON();
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Whether an object has a key of its own.
+   */
+  export
+  function hasKey(value: JSONObject, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(value, key);
+  }
+}
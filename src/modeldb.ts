@@ -2,19 +2,55 @@
 // Distributed under the terms of the Modified BSD License.
 
 import {
-  JSONValue, PromiseDelegate
+  JSONExt, JSONObject, JSONValue, PromiseDelegate
 } from '@phosphor/coreutils';
 
+import {
+  toArray
+} from '@phosphor/algorithm';
+
 import {
   DisposableSet
 } from '@phosphor/disposable';
 
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
 import {
   IModelDB, IObservableValue, IObservableString,
   IObservable, IObservableUndoableList, IObservableJSON,
-  ObservableMap, ObservableJSON, ICollaborator, ICollaboratorMap
+  ObservableMap, ICollaborator, ICollaboratorMap
 } from '@jupyterlab/coreutils';
 
+import {
+  ShareBlame
+} from './blame';
+
+import {
+  ShareCollaboratorMap
+} from './collaborators';
+
+import {
+  ConnectionPool
+} from './connection';
+
+import {
+  ShareMap
+} from './map';
+
+import {
+  SharePath
+} from './path';
+
+import {
+  ShareSelections
+} from './selections';
+
+import {
+  SharePrimitive
+} from './share';
+
 import {
   ShareString
 } from './string';
@@ -27,27 +63,25 @@ import {
   ShareValue
 } from './value';
 
-declare let require: any;
-let sharedb = require('sharedb/lib/client');
-
-
-/**
- * Create a dummy collaborator map.
- */
-class DummyCollaboratorMap extends ObservableMap<ICollaborator> {
-  type: 'Map';
-
-  readonly localCollaborator: ICollaborator = {
-    userId: '1234',
-    sessionId: '5678',
-    displayName: 'A. U. Thor',
-    color: '#00FF33',
-    shortName: 'AU'
-  }
-}
 
 /**
  * A concrete implementation of an `IModelDB`.
+ *
+ * #### Notes
+ * The model can be edited while the connection to the server
+ * is down. The edits are kept as pending ops, which are sent
+ * once the pool has reconnected.
+ *
+ * A view can be backed by a separate ShareDB document, so that
+ * clients only load and receive the ops of the subtrees they use.
+ * The document of the base then holds a reference to it.
+ *
+ * Path arguments are parsed with `SharePath`, so a key which
+ * contains a `.` must be escaped with `SharePath.escape`.
+ *
+ * When the file of a document is renamed or deleted, the document
+ * is left as a tombstone, which `documentMoved` reports to every
+ * client which has it open.
  */
 export
 class ShareModelDB implements IModelDB {
@@ -56,23 +90,47 @@ class ShareModelDB implements IModelDB {
    */
   constructor(options: ShareModelDB.ICreateOptions = {}) {
     this._basePath = options.basePath || '';
-    if (options.baseDB) {
+    if (options.baseDB && !options.separate) {
+      // Views share the document and connection state of their base.
       this._db = options.baseDB;
-    } else {
-      this._db = new ObservableMap<IObservable>();
-      this._toDispose = true;
-    }
-    let socket = new WebSocket('ws://localhost:8080');
-    let connection = new sharedb.Connection(socket);
-    this._doc = connection.get('examples', 'textarea');
-    this._doc.subscribe( () => {
-      let data = this._doc.data;
-      if (data.value) {
-        this._isPrepopulated = true;
-      } else {
-        this._isPrepopulated = false;
-      }
-      this._connected.resolve(void 0);
+      this._base = options.baseDB;
+      this._collection = options.baseDB.collection;
+      this._documentId = options.baseDB.documentId;
+      this._connected = options.baseDB._connected;
+      this.collaborators = options.baseDB.collaborators;
+      return;
+    }
+    this._db = new ObservableMap<IObservable>();
+    this._toDispose = true;
+    if (options.baseDB) {
+      // A separate view is the root of its own document,
+      // which is only loaded once the view is used.
+      let baseDB = options.baseDB;
+      this._parent = baseDB;
+      this._referencePath = baseDB.fullPath(this._basePath);
+      this._rootBasePath = baseDB._rootPath(this._basePath);
+      this._basePath = '';
+      this._collection = baseDB.collection;
+      this._documentId = `${baseDB.documentId}#${this._referencePath}`;
+      this._pool = baseDB.pool;
+      this._pool.stateChanged.connect(this._onStateChanged, this);
+      this.collaborators = baseDB.collaborators;
+      return;
+    }
+    if (!options.pool || !options.collection || !options.documentId) {
+      throw Error('A ShareModelDB requires a pool, a collection and a document id');
+    }
+    this._collection = options.collection;
+    this._documentId = options.documentId;
+    this._pool = options.pool;
+    this._separateViews = options.separateViews || [];
+    this._pool.stateChanged.connect(this._onStateChanged, this);
+    this._load();
+    this.collaborators = new ShareCollaboratorMap({
+      connection: this._doc.connection,
+      channel: ShareCollaboratorMap.channel(this._collection, this._documentId),
+      localCollaborator: options.localCollaborator ||
+        ShareCollaboratorMap.createLocalCollaborator('')
     });
   }
 
@@ -85,6 +143,203 @@ class ShareModelDB implements IModelDB {
     return this._basePath;
   }
 
+  /**
+   * The ShareDB collection holding the document.
+   */
+  get collection(): string {
+    return this._collection;
+  }
+
+  /**
+   * The id of the ShareDB document backing the database.
+   */
+  get documentId(): string {
+    return this._documentId;
+  }
+
+  /**
+   * The pool providing the ShareDB document.
+   */
+  get pool(): ConnectionPool {
+    if (this._base) {
+      return this._base.pool;
+    }
+    return this._pool!;
+  }
+
+  /**
+   * The state of the connection to the ShareDB server.
+   */
+  get connectionState(): ConnectionPool.ConnectionState {
+    return this.pool.state;
+  }
+
+  /**
+   * A signal emitted when the state of the connection changes.
+   *
+   * #### Notes
+   * Views emit the signal of their base database.
+   */
+  get connectionStateChanged(): ISignal<ShareModelDB, ConnectionPool.ConnectionState> {
+    if (this._base) {
+      return this._base.connectionStateChanged;
+    }
+    return this._connectionStateChanged;
+  }
+
+  /**
+   * The number of local ops which have not
+   * yet been acknowledged by the server.
+   */
+  get pendingOps(): number {
+    if (this._base) {
+      return this._base.pendingOps;
+    }
+    let doc = this._doc;
+    if (!doc) {
+      return 0;
+    }
+    return (doc.inflightOp ? 1 : 0) + doc.pendingOps.length;
+  }
+
+  /**
+   * The version of the document known to the client,
+   * or `null` if it has not been loaded yet.
+   */
+  get version(): number | null {
+    if (this._base) {
+      return this._base.version;
+    }
+    return this._doc ? this._doc.version : null;
+  }
+
+  /**
+   * A signal emitted when `pendingOps` or `version` may have changed.
+   *
+   * #### Notes
+   * Views emit the signal of their base database.
+   */
+  get syncStateChanged(): ISignal<ShareModelDB, void> {
+    if (this._base) {
+      return this._base.syncStateChanged;
+    }
+    return this._syncStateChanged;
+  }
+
+  /**
+   * A signal emitted when an op fails or is rejected by the server.
+   *
+   * #### Notes
+   * By then, the document has been rolled back to the state of
+   * the server, and the primitives have emitted the changes.
+   * Views emit the signal of their base database, and the ops
+   * of separate views are also reported by their base.
+   */
+  get opFailed(): ISignal<ShareModelDB, ShareModelDB.IOpFailedArgs> {
+    if (this._base) {
+      return this._base.opFailed;
+    }
+    return this._opFailed;
+  }
+
+  /**
+   * A signal emitted when the document has been moved to another
+   * document or deleted, after which it should no longer be edited.
+   *
+   * #### Notes
+   * Views emit the signal of their base database.
+   */
+  get documentMoved(): ISignal<ShareModelDB, ShareModelDB.IDocumentMovedArgs> {
+    if (this._base) {
+      return this._base.documentMoved;
+    }
+    return this._documentMoved;
+  }
+
+  /**
+   * Reconnect to the server immediately.
+   */
+  forceReconnect(): void {
+    this.pool.forceReconnect();
+  }
+
+  /**
+   * Whether the ShareDB server handles the save and reload requests
+   * of the document, such as the server in the `server` directory.
+   *
+   * #### Notes
+   * That server marks the documents it serves, which is only
+   * known once the database has connected. Other ShareDB servers
+   * leave the requests unanswered.
+   */
+  get handlesRequests(): boolean {
+    let doc = this._root()._load();
+    return !!(doc && doc.data && doc.data[Private.SERVER_KEY]);
+  }
+
+  /**
+   * Ask the ShareDB server to save the document to its file.
+   *
+   * @returns a promise resolved with the version of the document
+   *   which was saved, once it includes every local op.
+   *
+   * #### Notes
+   * Collaborators save the same converged state, which the server
+   * writes. This needs a server which handles requests, and the
+   * promise is rejected if the server does not respond in time.
+   */
+  requestSave(): Promise<number> {
+    return this.connected.then(() => {
+      return Private.request(this._load(), Private.SAVE_KEY);
+    });
+  }
+
+  /**
+   * Ask the ShareDB server to reload the document from its file,
+   * for instance after the file has been restored from a checkpoint.
+   *
+   * @returns a promise resolved with the version of the
+   *   document once it holds the contents of the file.
+   *
+   * #### Notes
+   * The server submits the changes as ops, so the
+   * documents of every collaborator are updated.
+   */
+  requestReload(): Promise<number> {
+    return this.connected.then(() => {
+      return Private.request(this._load(), Private.RELOAD_KEY);
+    });
+  }
+
+  /**
+   * Whether the editors of the strings in the database show
+   * the collaborator who last changed each range of the text.
+   *
+   * #### Notes
+   * This needs a server which records the authors of the changes,
+   * such as the one in the `server` directory. Views share the
+   * setting of their base database.
+   */
+  get showBlame(): boolean {
+    return this._root()._blame !== null;
+  }
+  set showBlame(value: boolean) {
+    let root = this._root();
+    if (root !== this) {
+      root.showBlame = value;
+      return;
+    }
+    if (value === (this._blame !== null)) {
+      return;
+    }
+    let previous = this._blame;
+    this._blame = value ? new ShareBlame({ modelDB: this }) : null;
+    this._blameChanged.emit(this._blame);
+    if (previous) {
+      previous.dispose();
+    }
+  }
+
   /**
    * Whether the database is disposed.
    */
@@ -97,6 +352,9 @@ class ShareModelDB implements IModelDB {
    * any model values.
    */
   get isPrepopulated(): boolean {
+    if (this._base) {
+      return this._base.isPrepopulated;
+    }
     return this._isPrepopulated;
   }
 
@@ -105,13 +363,21 @@ class ShareModelDB implements IModelDB {
    */
   readonly isCollaborative: boolean = true;
 
-  readonly collaborators: ICollaboratorMap = new DummyCollaboratorMap();
+  /**
+   * The collaborators on the document, including the local one.
+   */
+  readonly collaborators: ICollaboratorMap;
+
   /**
    * A promise resolved when the model is connected
    * to its backend. For the in-memory ModelDB it
    * is immediately resolved.
+   *
+   * #### Notes
+   * For a separate view, this starts loading its document.
    */
   get connected(): Promise<void> {
+    this._load();
     return this._connected.promise;
   }
 
@@ -145,7 +411,8 @@ class ShareModelDB implements IModelDB {
    * @returns the string that was created.
    */
   createString(path: string): IObservableString {
-    let str = new ShareString(this._doc, this.fullPath(path).split('.'));
+    let str = new ShareString(this._load(), this._sharePath(path));
+    str.opFailed.connect(this._onOpFailed, this);
     this._disposables.add(str);
     this.set(path, str);
     return str;
@@ -163,7 +430,8 @@ class ShareModelDB implements IModelDB {
    * JSON Objects and primitives.
    */
   createList<T extends JSONValue>(path: string): IObservableUndoableList<T> {
-    let vec = new ShareUndoableList<T>(this._doc, this.fullPath(path).split('.'));
+    let vec = new ShareUndoableList<T>(this._load(), this._sharePath(path));
+    vec.opFailed.connect(this._onOpFailed, this);
     this._disposables.add(vec);
     this.set(path, vec);
     return vec;
@@ -179,9 +447,19 @@ class ShareModelDB implements IModelDB {
    * #### Notes
    * The map can only store objects that are simple
    * JSON Objects and primitives.
+   *
+   * The `selections` map of an editor model is shared with
+   * collaborators as presence, and not stored in the document.
    */
   createMap(path: string): IObservableJSON {
-    let map = new ObservableJSON();
+    let selections = this._createSelections(path);
+    if (selections) {
+      this._disposables.add(selections);
+      this.set(path, selections);
+      return selections;
+    }
+    let map = new ShareMap(this._load(), this._sharePath(path));
+    map.opFailed.connect(this._onOpFailed, this);
     this._disposables.add(map);
     this.set(path, map);
     return map;
@@ -195,7 +473,8 @@ class ShareModelDB implements IModelDB {
    * @returns the value that was created.
    */
   createValue(path: string): IObservableValue {
-    let val = new ShareValue(this._doc, this.fullPath(path).split('.'));
+    let val = new ShareValue(this._load(), this._sharePath(path));
+    val.opFailed.connect(this._onOpFailed, this);
     this._disposables.add(val);
     this.set(path, val);
     return val;
@@ -237,11 +516,19 @@ class ShareModelDB implements IModelDB {
    *
    * @param basePath: the path for the root of the subtree.
    *
+   * @param separate: whether the subtree is stored in a separate
+   *   document. Defaults to whether the subtree lies directly below
+   *   one of the `separateViews` paths of the root database.
+   *
    * @returns an `IModelDB` with a view onto the original
    *   `IModelDB`, with `basePath` prepended to all paths.
    */
-  view(basePath: string): ShareModelDB {
-    let view = new ShareModelDB({basePath, baseDB: this});
+  view(basePath: string, separate?: boolean): ShareModelDB {
+    if (separate === undefined) {
+      let parent = SharePath.parse(this._rootPath(basePath)).slice(0, -1);
+      separate = this._root()._separateViews.indexOf(SharePath.format(parent)) !== -1;
+    }
+    let view = new ShareModelDB({basePath, baseDB: this, separate});
     this._disposables.add(view);
     return view;
   }
@@ -271,6 +558,26 @@ class ShareModelDB implements IModelDB {
       this._db.dispose();
     }
     this._disposables.dispose();
+    if (this._blame) {
+      this._blame.dispose();
+      this._blame = null;
+    }
+    if (this._pool) {
+      this._pool.stateChanged.disconnect(this._onStateChanged, this);
+      if (!this._parent) {
+        this.collaborators.dispose();
+      }
+    }
+    if (this._doc && !this._base) {
+      this._doc.removeListener('load', this._onLoad);
+      this._doc.removeListener('op batch', this._onSync);
+      this._doc.removeListener('no write pending', this._onSync);
+      this._doc.removeListener('error', this._onError);
+      this._doc.connection.removeListener('send', this._onSend);
+      this._doc.connection.removeListener('receive', this._onReceive);
+      this._pool!.release(this._doc);
+    }
+    Signal.clearData(this);
   }
 
   /**
@@ -281,10 +588,282 @@ class ShareModelDB implements IModelDB {
    * @returns a fully resolved path on the base model database.
    */
   fullPath(path: string): string {
-    if (! (this._db as any).type) {
-      return (this._db as ShareModelDB).fullPath(this._basePath + '.' + path);
-    } else {
-      return path;
+    if (this._base) {
+      return this._base.fullPath(SharePath.join(this._basePath, path));
+    }
+    return path;
+  }
+
+  /**
+   * Create the selections map for an editor model, if `path`
+   * is the `selections` path next to the `value` string of one.
+   */
+  private _createSelections(path: string): ShareSelections | null {
+    let parts = SharePath.parse(path);
+    if (parts.pop() !== 'selections') {
+      return null;
+    }
+    let value = this.get(SharePath.format([...parts, 'value']));
+    if (!(value instanceof ShareString)) {
+      return null;
+    }
+    // Separate views share the collaborators of their base,
+    // so the key includes the document of the string.
+    let selections = new ShareSelections({
+      string: value,
+      collaborators: this.collaborators as ShareCollaboratorMap,
+      key: JSON.stringify([value.doc.id, ...value.path])
+    });
+    let root = this._root();
+    selections.blame = root._blame;
+    root._blameChanged.connect((sender, blame) => {
+      selections.blame = blame;
+    }, selections);
+    return selections;
+  }
+
+  /**
+   * Get the database which holds the settings of its views.
+   */
+  private _root(): ShareModelDB {
+    let base = this._base || this._parent;
+    return base ? base._root() : this;
+  }
+
+  /**
+   * Get the ShareDB document, acquiring and subscribing
+   * to it if this has not been done yet.
+   */
+  private _load(): any {
+    if (this._base) {
+      return this._base._load();
+    }
+    if (this._doc || this._isDisposed) {
+      return this._doc;
+    }
+    this._doc = this._pool!.acquire(this._collection, this._documentId);
+    this._doc.on('load', this._onLoad);
+    this._doc.on('op batch', this._onSync);
+    this._doc.on('no write pending', this._onSync);
+    this._doc.on('error', this._onError);
+    this._doc.connection.on('send', this._onSend);
+    this._doc.connection.on('receive', this._onReceive);
+    this._doc.subscribe(() => {
+      if (this._doc.type) {
+        this._isPrepopulated = true;
+        this._connected.resolve(void 0);
+        return;
+      }
+      this._create();
+    });
+    let parent = this._parent;
+    if (parent) {
+      parent.connected.then(() => {
+        if (!this._isDisposed && !parent!.isDisposed) {
+          parent!._reference(this._referencePath, this._documentId);
+        }
+      });
+    }
+    return this._doc;
+  }
+
+  /**
+   * Store a reference to the document of a separate view.
+   *
+   * @param path: the full path of the view.
+   *
+   * @param documentId: the id of the document of the view.
+   */
+  private _reference(path: string, documentId: string): void {
+    let doc = this._load();
+    let op = Private.insert(doc.data, SharePath.parse(path), { documentId });
+    if (op) {
+      doc.submitOp(op, this._onSubmitted);
+    }
+  }
+
+  /**
+   * Forward changes to the state of the pool's connection.
+   */
+  private _onStateChanged(sender: ConnectionPool, state: ConnectionPool.ConnectionState): void {
+    this._connectionStateChanged.emit(state);
+  }
+
+  /**
+   * Create the document from the values of the primitives
+   * which have been created so far.
+   *
+   * #### Notes
+   * If another client creates the document first, the server
+   * rejects our create, and ShareDB rolls back to the snapshot
+   * of the winner. The primitives then switch over to it.
+   */
+  private _create(): void {
+    let snapshot: JSONObject = {};
+    let primitives = this._primitives().filter(primitive => {
+      return Private.setPath(snapshot, primitive.path, Private.localValue(primitive));
+    });
+    let local = JSONExt.deepCopy(snapshot);
+    this._doc.create(snapshot, (err: any) => {
+      if (err && err.code === 'ERR_DOC_ALREADY_CREATED' && this._doc.type) {
+        Private.adopt(this._doc, primitives, local, this._onSubmitted);
+      } else if (err) {
+        this._reportOpFailed({ error: err, documentId: this._documentId, path: null });
+      }
+      this._connected.resolve(void 0);
+    });
+  }
+
+  /**
+   * Get the primitives backed by the document.
+   */
+  private _primitives(): SharePrimitive[] {
+    let primitives: SharePrimitive[] = [];
+    let db = this._db as ObservableMap<IObservable>;
+    for (let key of db.keys()) {
+      let primitive = db.get(key);
+      if (primitive instanceof SharePrimitive) {
+        primitives.push(primitive);
+      }
+    }
+    return primitives;
+  }
+
+  /**
+   * Handle a change to the ops or version of the document.
+   */
+  private _onSync = () => {
+    this._syncStateChanged.emit(void 0);
+    this._checkMoved();
+  }
+
+  /**
+   * Emit `documentMoved` once the document has become a tombstone.
+   */
+  private _checkMoved(): void {
+    let data = this._doc && this._doc.data;
+    if (this._isMoved || !data || data[Private.MOVED_KEY] === undefined) {
+      return;
+    }
+    this._isMoved = true;
+    let moved = data[Private.MOVED_KEY];
+    this._documentMoved.emit({
+      documentId: this._documentId,
+      newDocumentId: typeof moved === 'string' ? moved : null
+    });
+  }
+
+  /**
+   * Handle the document loading a snapshot.
+   *
+   * #### Notes
+   * When ShareDB cannot roll back a rejected op by applying its
+   * inverse, it discards the pending ops and reloads the document
+   * without emitting any ops, so the primitives are refreshed
+   * from their values before the rejection.
+   */
+  private _onLoad = () => {
+    this._onSync();
+    let snapshot = this._rejectedSnapshot;
+    this._rejectedSnapshot = null;
+    if (snapshot && this._doc.type) {
+      Private.restore(this._primitives(), snapshot);
+    }
+  }
+
+  /**
+   * Handle a message received over the connection.
+   *
+   * #### Notes
+   * This is called before ShareDB handles the message, so that
+   * the data can be kept when the server rejects one of our ops.
+   */
+  private _onReceive = (request: any) => {
+    let message = request.data;
+    if (message && message.a === 'op' && message.error &&
+        message.c === this._collection && message.d === this._documentId &&
+        message.error.code !== 'ERR_DOC_ALREADY_CREATED' && this._doc.type) {
+      this._rejectedSnapshot = JSONExt.deepCopy(this._doc.data);
+    }
+  }
+
+  /**
+   * Handle a failed op of a primitive.
+   */
+  private _onOpFailed(sender: SharePrimitive, error: Error): void {
+    this._reportOpFailed({ error, documentId: sender.doc.id, path: sender.path });
+  }
+
+  /**
+   * Report a failed op on the document of the database.
+   *
+   * #### Notes
+   * When ShareDB reloads the document, it fails every pending op
+   * with the same error, which is only reported once.
+   */
+  private _reportOpFailed(args: ShareModelDB.IOpFailedArgs): void {
+    if (this._base) {
+      this._base._reportOpFailed(args);
+      return;
+    }
+    this._rejectedSnapshot = null;
+    if (args.error === this._lastError) {
+      return;
+    }
+    this._lastError = args.error;
+    this._emitOpFailed(args);
+  }
+
+  /**
+   * Emit a failed op on the database and the bases of separate views.
+   */
+  private _emitOpFailed(args: ShareModelDB.IOpFailedArgs): void {
+    this._opFailed.emit(args);
+    if (this._parent && !this._parent.isDisposed) {
+      this._parent._emitOpFailed(args);
+    }
+  }
+
+  /**
+   * Report the failure of an op which was not submitted by a primitive.
+   */
+  private _onSubmitted = (err: any) => {
+    if (err) {
+      this._reportOpFailed({ error: err, documentId: this._documentId, path: null });
+    }
+  }
+
+  /**
+   * Handle an error on the document which has no op callback.
+   *
+   * #### Notes
+   * When a create loses a race, the server may reject it after
+   * ShareDB has already rolled back on receiving the winning create.
+   */
+  private _onError = (err: any) => {
+    if (err.code === 'ERR_DOC_ALREADY_CREATED') {
+      return;
+    }
+    this._reportOpFailed({ error: err, documentId: this._documentId, path: null });
+  }
+
+  /**
+   * Handle a message sent over the connection.
+   *
+   * #### Notes
+   * ShareDB sends the next pending op as soon as the previous
+   * one is acknowledged, without emitting an event on the document.
+   *
+   * The ops are tagged with the local collaborator and the time they
+   * are sent, which the ShareDB server keeps in the op log. The tags
+   * are added to the message rather than the ops, so that ShareDB
+   * can still compose the pending ops of the document.
+   */
+  private _onSend = (message: any) => {
+    if (message.a === 'op' && message.c === this._collection &&
+        message.d === this._documentId) {
+      Private.tag(message, this.collaborators.localCollaborator);
+      this._onSync();
     }
   }
 
@@ -292,20 +871,52 @@ class ShareModelDB implements IModelDB {
    * Compute the fully resolved path for a path argument.
    */
   private _resolvePath(path: string): string {
-    if (this._basePath) {
-      path = this._basePath + '.' + path;
+    return SharePath.join(this._basePath, path);
+  }
+
+  /**
+   * Get the path of a subtree from the root database,
+   * across the documents of separate views.
+   */
+  private _rootPath(path: string): string {
+    if (this._base) {
+      return this._base._rootPath(SharePath.join(this._basePath, path));
     }
-    return path;
+    return SharePath.join(this._rootBasePath, path);
+  }
+
+  /**
+   * Compute the json0 path in the document for a path argument.
+   */
+  private _sharePath(path: string): SharePath {
+    return SharePath.parse(this.fullPath(path));
   }
 
   private _basePath: string;
+  private _collection: string;
+  private _documentId: string;
+  private _base: ShareModelDB | null = null;
+  private _parent: ShareModelDB | null = null;
+  private _referencePath = '';
+  private _rootBasePath = '';
+  private _separateViews: string[] = [];
+  private _pool: ConnectionPool | null = null;
   private _db: ShareModelDB | ObservableMap<IObservable>;
   private _toDispose = false;
   private _isDisposed = false;
   private _disposables = new DisposableSet();
   private _connected = new PromiseDelegate<void>();
-  private _doc: any;
+  private _doc: any = null;
   private _isPrepopulated = false;
+  private _connectionStateChanged = new Signal<ShareModelDB, ConnectionPool.ConnectionState>(this);
+  private _syncStateChanged = new Signal<ShareModelDB, void>(this);
+  private _opFailed = new Signal<ShareModelDB, ShareModelDB.IOpFailedArgs>(this);
+  private _documentMoved = new Signal<ShareModelDB, ShareModelDB.IDocumentMovedArgs>(this);
+  private _isMoved = false;
+  private _blame: ShareBlame | null = null;
+  private _blameChanged = new Signal<ShareModelDB, ShareBlame | null>(this);
+  private _rejectedSnapshot: JSONObject | null = null;
+  private _lastError: Error | null = null;
 }
 
 /**
@@ -328,5 +939,501 @@ namespace ShareModelDB {
      * ModelDB. If none is given, it uses its own store.
      */
     baseDB?: ShareModelDB;
+
+    /**
+     * Whether the subtree of `baseDB` is stored in a separate
+     * document, rather than in the document of `baseDB`.
+     * Defaults to `false`.
+     */
+    separate?: boolean;
+
+    /**
+     * The paths whose views are stored in separate documents by
+     * default, such as `['cells']` to store each cell of a notebook,
+     * which is a view of `cells`, in its own document. Defaults to none.
+     */
+    separateViews?: string[];
+
+    /**
+     * The pool providing the ShareDB document.
+     * Required unless `baseDB` is given.
+     */
+    pool?: ConnectionPool;
+
+    /**
+     * The ShareDB collection holding the document.
+     * Required unless `baseDB` is given.
+     */
+    collection?: string;
+
+    /**
+     * The id of the ShareDB document backing the database.
+     * Required unless `baseDB` is given.
+     */
+    documentId?: string;
+
+    /**
+     * The collaborator to publish for the local user.
+     * Defaults to an anonymous collaborator.
+     */
+    localCollaborator?: ICollaborator;
+  }
+
+  /**
+   * The arguments of the `opFailed` signal.
+   */
+  export
+  interface IOpFailedArgs {
+    /**
+     * The error reported by ShareDB.
+     */
+    readonly error: Error;
+
+    /**
+     * The id of the document of the op.
+     */
+    readonly documentId: string;
+
+    /**
+     * The path of the primitive which submitted the op,
+     * or `null` if the op was not submitted by a primitive.
+     */
+    readonly path: SharePath | null;
+  }
+
+  /**
+   * The arguments of the `documentMoved` signal.
+   */
+  export
+  interface IDocumentMovedArgs {
+    /**
+     * The id of the document which has been moved.
+     */
+    readonly documentId: string;
+
+    /**
+     * The id of the document it has been moved
+     * to, or `null` if it has been deleted.
+     */
+    readonly newDocumentId: string | null;
+  }
+
+  /**
+   * Get the id of the document of a file from the id of
+   * its document or of the document of a separate view.
+   *
+   * #### Notes
+   * The ids of the documents of files have their `#` characters
+   * escaped by `ShareDrive.documentId`, so the first `#` starts
+   * the path of a separate view.
+   */
+  export
+  function baseId(documentId: string): string {
+    let separator = documentId.indexOf('#');
+    return separator === -1 ? documentId : documentId.slice(0, separator);
+  }
+
+  /**
+   * Copy a ShareDB document, along with the documents of its separate views.
+   *
+   * @param pool: the pool providing the documents.
+   *
+   * @param collection: the ShareDB collection holding the documents.
+   *
+   * @param documentId: the id of the document to copy.
+   *
+   * @param newDocumentId: the id of the copy, which is
+   *   replaced if it exists already.
+   *
+   * @returns a promise resolved once the copy has been written,
+   *   which does nothing if the document does not exist.
+   */
+  export
+  function copyDocument(pool: ConnectionPool, collection: string, documentId: string, newDocumentId: string): Promise<void> {
+    return Private.transfer(pool, collection, documentId, newDocumentId, false);
+  }
+
+  /**
+   * Move a ShareDB document, along with the documents of its separate views.
+   *
+   * @param pool: the pool providing the documents.
+   *
+   * @param collection: the ShareDB collection holding the documents.
+   *
+   * @param documentId: the id of the document to move.
+   *
+   * @param newDocumentId: the id to move the document to,
+   *   or `null` to delete the document.
+   *
+   * @returns a promise resolved once the document has been moved,
+   *   which does nothing if the document does not exist.
+   *
+   * #### Notes
+   * The document is copied, and then left as a tombstone holding the
+   * id of the copy, so that the clients which have it open are told
+   * by `documentMoved`. The ShareDB server deletes tombstones once
+   * their files are gone.
+   */
+  export
+  function moveDocument(pool: ConnectionPool, collection: string, documentId: string, newDocumentId: string | null): Promise<void> {
+    return Private.transfer(pool, collection, documentId, newDocumentId, true);
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The key of the document under which saves are requested
+   * from the server, and the saved version is recorded.
+   */
+  export
+  const SAVE_KEY = '$save';
+
+  /**
+   * The key of the document under which reloads are requested
+   * from the server, and the reloaded version is recorded.
+   */
+  export
+  const RELOAD_KEY = '$reload';
+
+  /**
+   * The key of a tombstone, holding the id of the document
+   * it has been moved to, or `null` if it has been deleted.
+   */
+  export
+  const MOVED_KEY = '$moved';
+
+  /**
+   * The key of a document which marks it as served by
+   * a server which handles save and reload requests.
+   */
+  export
+  const SERVER_KEY = '$server';
+
+  /**
+   * The time in milliseconds to wait for the server to handle a request.
+   */
+  const REQUEST_TIMEOUT = 30000;
+
+  /**
+   * Send a request to the server through the document.
+   *
+   * @param doc: the document.
+   *
+   * @param key: the key of the request in the document.
+   *
+   * @returns a promise resolved with the version recorded by the
+   *   server once it has handled a version including the request.
+   *
+   * #### Notes
+   * The request is an increment of a counter, so that concurrent
+   * requests from several collaborators do not conflict.
+   */
+  export
+  function request(doc: any, key: string): Promise<number> {
+    let state = doc.data[key];
+    let op: any;
+    if (state && typeof state.requests === 'number') {
+      op = { p: [key, 'requests'], na: 1 };
+    } else {
+      op = { p: [key], oi: { requests: 1 } };
+      if (state !== undefined) {
+        op.od = state;
+      }
+    }
+    return new Promise<number>((resolve, reject) => {
+      doc.submitOp(op, (err: any) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        // The request is included from the version after its op.
+        let target: number = doc.version;
+        let check = () => {
+          let current = doc.data && doc.data[key];
+          if (current && current.version >= target) {
+            done();
+            resolve(current.version);
+          }
+        };
+        let done = () => {
+          clearTimeout(timer);
+          doc.removeListener('op batch', check);
+          doc.removeListener('load', check);
+        };
+        let timer = setTimeout(() => {
+          done();
+          reject(Error(`The ShareDB server did not handle the request in time: ${key}`));
+        }, REQUEST_TIMEOUT);
+        doc.on('op batch', check);
+        doc.on('load', check);
+        check();
+      });
+    });
+  }
+
+  /**
+   * Copy a document to another and optionally leave a tombstone.
+   *
+   * @param pool: the pool providing the documents.
+   *
+   * @param collection: the ShareDB collection holding the documents.
+   *
+   * @param fromId: the id of the document.
+   *
+   * @param toId: the id of the copy, or `null` for no copy.
+   *
+   * @param tombstone: whether to leave a tombstone.
+   */
+  export
+  function transfer(pool: ConnectionPool, collection: string, fromId: string, toId: string | null, tombstone: boolean): Promise<void> {
+    let from = pool.acquire(collection, fromId);
+    return fetch(from).then(() => {
+      return new Promise<void>(resolve => { from.whenNothingPending(resolve); });
+    }).then(() => {
+      if (!from.type || from.data[MOVED_KEY] !== undefined) {
+        return undefined;
+      }
+      let views: string[] = [];
+      let data = rebase(from.data, fromId, toId, views);
+      for (let key of Object.keys(data)) {
+        if (key[0] === '$') {
+          delete data[key];
+        }
+      }
+      // Copy the views first, so that the copy never refers to a
+      // missing document, and leave the tombstone last, so that
+      // clients reopening the document find the copy.
+      return Promise.all(views.map(view => {
+        let target = toId === null ? null : toId + view.slice(fromId.length);
+        return transfer(pool, collection, view, target, tombstone);
+      })).then(() => {
+        return toId === null ? undefined : write(pool, collection, toId, data);
+      }).then(() => {
+        if (tombstone) {
+          return submit(from, { p: [MOVED_KEY], oi: toId });
+        }
+        return undefined;
+      });
+    }).then(() => {
+      pool.release(from);
+    }, err => {
+      pool.release(from);
+      throw err;
+    });
+  }
+
+  /**
+   * Copy a value, replacing the references to the documents
+   * of separate views of one document with references to
+   * the corresponding views of another.
+   *
+   * @param value: the value to copy.
+   *
+   * @param fromId: the id of the document holding the value.
+   *
+   * @param toId: the id of the other document, or `null`
+   *   to keep the references.
+   *
+   * @param views: the list to which the ids of the
+   *   referenced documents are added.
+   */
+  function rebase(value: any, fromId: string, toId: string | null, views: string[]): any {
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    let keys = Object.keys(value);
+    let id = value.documentId;
+    if (keys.length === 1 && typeof id === 'string' && id.indexOf(fromId + '#') === 0) {
+      views.push(id);
+      return { documentId: toId === null ? id : toId + id.slice(fromId.length) };
+    }
+    let copy: any = Array.isArray(value) ? [] : {};
+    for (let key of keys) {
+      copy[key] = rebase(value[key], fromId, toId, views);
+    }
+    return copy;
+  }
+
+  /**
+   * Create a document with the given data, or
+   * replace its data if it exists already.
+   */
+  function write(pool: ConnectionPool, collection: string, id: string, data: JSONObject): Promise<void> {
+    let doc = pool.acquire(collection, id);
+    return fetch(doc).then(() => {
+      if (doc.type) {
+        return submit(doc, { p: [], od: doc.data, oi: data });
+      }
+      return new Promise<void>((resolve, reject) => {
+        doc.create(data, (err: any) => { err ? reject(err) : resolve(void 0); });
+      });
+    }).then(() => {
+      pool.release(doc);
+    }, err => {
+      pool.release(doc);
+      throw err;
+    });
+  }
+
+  /**
+   * Fetch a ShareDB document.
+   */
+  function fetch(doc: any): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      doc.fetch((err: any) => { err ? reject(err) : resolve(void 0); });
+    });
+  }
+
+  /**
+   * Submit an op to a ShareDB document.
+   */
+  function submit(doc: any, op: any): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      doc.submitOp(op, (err: any) => { err ? reject(err) : resolve(void 0); });
+    });
+  }
+
+  /**
+   * Tag an op message with its author and the current time.
+   */
+  export
+  function tag(message: any, collaborator: ICollaborator): void {
+    let { userId, displayName, color } = collaborator;
+    message.x = message.x || {};
+    message.x.author = { userId, displayName, color };
+    message.x.time = Date.now();
+  }
+
+  /**
+   * Get the value of a primitive, which is held in
+   * its local buffer until the document is created.
+   */
+  export
+  function localValue(primitive: SharePrimitive): JSONValue {
+    let observable = primitive as any as IObservable;
+    switch (observable.type) {
+    case 'String':
+      return (observable as IObservableString).text;
+    case 'List':
+      return toArray((observable as IObservableUndoableList<JSONValue>).iter());
+    case 'Map':
+      return (observable as IObservableJSON).toJSON();
+    default:
+      return (observable as IObservableValue).get();
+    }
+  }
+
+  /**
+   * Set the value at a path in a JSON object.
+   *
+   * @returns whether the value was set, which fails if the path
+   *   runs through a value which is not an object.
+   */
+  export
+  function setPath(data: JSONObject, path: Array<string | number>, value: JSONValue): boolean {
+    let parent: any = data;
+    for (let key of path.slice(0, -1)) {
+      if (parent[key] === undefined) {
+        parent[key] = {};
+      }
+      parent = parent[key];
+      if (typeof parent !== 'object' || parent === null || Array.isArray(parent)) {
+        return false;
+      }
+    }
+    parent[path[path.length - 1]] = value;
+    return true;
+  }
+
+  /**
+   * Switch primitives over from the snapshot of a rejected
+   * create to the snapshot loaded from the server.
+   *
+   * #### Notes
+   * ShareDB replaces the data of the document without emitting
+   * any ops, so the primitives emit the changes from their local
+   * values to the values from the server. Values which are missing
+   * on the server are written to it instead, and `callback` is
+   * called with the result of the op.
+   */
+  export
+  function adopt(doc: any, primitives: SharePrimitive[], local: JSONObject, callback: (err: any) => void): void {
+    restore(primitives, local);
+    let missing: any[] = [];
+    for (let primitive of primitives) {
+      if (primitive.value !== undefined) {
+        continue;
+      }
+      let parent = getPath(doc.data, primitive.path.slice(0, -1));
+      if (typeof parent === 'object' && parent !== null && !Array.isArray(parent)) {
+        missing.push({ p: primitive.path, oi: getPath(local, primitive.path) });
+      }
+    }
+    if (missing.length) {
+      doc.submitOp(missing, callback);
+    }
+  }
+
+  /**
+   * Make primitives emit the changes from their values in
+   * a previous snapshot to the values in the document.
+   *
+   * #### Notes
+   * The primitives are refreshed directly rather than through
+   * a ShareDB event, so that the listeners of the document do
+   * not act on ops which the server never accepted.
+   */
+  export
+  function restore(primitives: SharePrimitive[], previous: JSONObject): void {
+    for (let primitive of primitives) {
+      primitive.refresh(getPath(previous, primitive.path));
+    }
+  }
+
+  /**
+   * Compute a json0 component which sets the value at a path
+   * in a JSON object, creating any missing parent objects.
+   *
+   * @returns the component, or `null` if the value is already
+   *   set or the path runs through a value which is not an object.
+   */
+  export
+  function insert(data: any, path: Array<string | number>, value: JSONValue): any | null {
+    for (let i = 0; i < path.length; i++) {
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return null;
+      }
+      let child = data[path[i]];
+      if (child === undefined) {
+        let oi: JSONValue = value;
+        for (let key of path.slice(i + 1).reverse()) {
+          oi = { [key]: oi };
+        }
+        return { p: path.slice(0, i + 1), oi };
+      }
+      data = child;
+    }
+    if (JSONExt.deepEqual(data, value)) {
+      return null;
+    }
+    return { p: path, od: data, oi: value };
+  }
+
+  /**
+   * Get the value at a path in a JSON value,
+   * or `undefined` if there is none.
+   */
+  function getPath(data: any, path: Array<string | number>): any {
+    for (let key of path) {
+      if (data === undefined || data === null) {
+        return undefined;
+      }
+      data = data[key];
+    }
+    return data;
   }
 }
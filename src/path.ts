@@ -0,0 +1,108 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * A json0 path into a ShareDB document. String segments are
+ * object keys and number segments are list indices.
+ */
+export
+type SharePath = Array<string | number>;
+
+
+/**
+ * A namespace for converting between the string paths of an
+ * `IModelDB` and json0 paths.
+ *
+ * #### Notes
+ * A string path is a list of segments separated by `.`. Object keys
+ * are escaped with `\`, so that they can contain `.` themselves, and
+ * list indices are written in brackets, as in `cells.[2].source`.
+ */
+export
+namespace SharePath {
+  /**
+   * Escape an object key for use as a segment of a string path.
+   *
+   * @param key: the object key.
+   *
+   * @returns the key, with `\` and `.` escaped, and a leading `[`
+   *   escaped so that the key is not read as a list index.
+   */
+  export
+  function escape(key: string): string {
+    let escaped = key.replace(/[\\.]/g, '\\$&');
+    return escaped[0] === '[' ? '\\' + escaped : escaped;
+  }
+
+  /**
+   * Convert a json0 path into a string path.
+   *
+   * @param path: the json0 path.
+   *
+   * @returns a string path which `parse` turns back into `path`.
+   */
+  export
+  function format(path: ReadonlyArray<string | number>): string {
+    return path.map(segment => {
+      return typeof segment === 'number' ? `[${segment}]` : escape(segment);
+    }).join('.');
+  }
+
+  /**
+   * Convert a string path into a json0 path.
+   *
+   * @param path: the string path.
+   *
+   * @returns the segments of the path, with the keys unescaped
+   *   and the list indices converted to numbers. The empty path
+   *   has no segments.
+   */
+  export
+  function parse(path: string): SharePath {
+    if (!path) {
+      return [];
+    }
+    let segments: SharePath = [];
+    let start = 0;
+    let key = '';
+    for (let i = 0; i <= path.length; i++) {
+      let char = path[i];
+      if (char === '\\' && i + 1 < path.length) {
+        key += path[++i];
+      } else if (char === '.' || i === path.length) {
+        let index = Private.INDEX.exec(path.slice(start, i));
+        segments.push(index ? Number(index[1]) : key);
+        start = i + 1;
+        key = '';
+      } else {
+        key += char;
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Join string paths.
+   *
+   * @param paths: the paths to join, which may be empty.
+   *
+   * @returns the path which has the segments of each path in turn.
+   */
+  export
+  function join(...paths: string[]): string {
+    return paths.filter(path => path).join('.');
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The pattern of a list index segment of a string path.
+   */
+  export
+  const INDEX = /^\[(\d+)\]$/;
+}
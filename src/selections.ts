@@ -0,0 +1,352 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONObject, JSONValue
+} from '@phosphor/coreutils';
+
+import {
+  CodeEditor
+} from '@jupyterlab/codeeditor';
+
+import {
+  IObservableMap, IObservableString, ObservableJSON
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareBlame
+} from './blame';
+
+import {
+  ShareCollaboratorMap
+} from './collaborators';
+
+import {
+  ShareHistory
+} from './history';
+
+import {
+  ShareString
+} from './string';
+
+
+/**
+ * An observable map of editor selections, which are shared with
+ * collaborators through presence rather than stored in the document.
+ *
+ * #### Notes
+ * Local editors set their selections under their own uuid. Remote
+ * selections are set under the session id of their collaborator,
+ * so that editors can find the color and name to render them with.
+ *
+ * Selections are exchanged as offsets into the text, and the
+ * remote offsets are moved through edits to the text as they
+ * arrive, so that they stay anchored to the same characters.
+ *
+ * When `blame` is set, the ranges of the text are also shown as
+ * selections in the color of the collaborator who last changed them.
+ * They are set under keys starting with `blame:`, and never published.
+ */
+export
+class ShareSelections extends ObservableJSON {
+  /**
+   * Construct a new selections map.
+   */
+  constructor(options: ShareSelections.IOptions) {
+    super();
+    this._string = options.string;
+    this._collaborators = options.collaborators;
+    this._key = options.key;
+    this.changed.connect(this._onChanged, this);
+    this._string.changed.connect(this._onTextChanged, this);
+    this._collaborators.stateChanged.connect(this._onStateChanged, this);
+
+    // Show the selections of collaborators who are already here.
+    for (let id of this._collaborators.keys()) {
+      if (id !== this._collaborators.localCollaborator.sessionId) {
+        this._updateRemote(id, this._collaborators.getState(id));
+      }
+    }
+  }
+
+  /**
+   * The authors of the text shown in the editors,
+   * or `null` if they are not shown.
+   */
+  get blame(): ShareBlame | null {
+    return this._blame;
+  }
+  set blame(value: ShareBlame | null) {
+    if (this._blame === value) {
+      return;
+    }
+    if (this._blame) {
+      this._blame.changed.disconnect(this._renderBlame, this);
+    }
+    this._blame = value;
+    if (value) {
+      value.changed.connect(this._renderBlame, this);
+    }
+    this._renderBlame();
+  }
+
+  /**
+   * Dispose of the resources held by the map,
+   * withdrawing the local selections.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._string.changed.disconnect(this._onTextChanged, this);
+    this._collaborators.stateChanged.disconnect(this._onStateChanged, this);
+    this._collaborators.setLocalState(this._key, null);
+    this._remote.clear();
+    if (this._blame) {
+      this._blame.changed.disconnect(this._renderBlame, this);
+      this._blame = null;
+    }
+    super.dispose();
+  }
+
+  /**
+   * Publish changes to the selections of local editors.
+   */
+  private _onChanged(sender: ObservableJSON, args: IObservableMap.IChangedArgs<JSONValue>): void {
+    if (this._updating) {
+      return;
+    }
+    let text = this._string.text;
+    if (args.newValue === undefined) {
+      delete this._local[args.key];
+    } else {
+      let selections = args.newValue as CodeEditor.ITextSelection[];
+      this._local[args.key] = selections.map(selection => {
+        return {
+          anchor: Private.toOffset(text, selection.start),
+          head: Private.toOffset(text, selection.end)
+        };
+      });
+    }
+    let ranges: Private.IOffsetRange[] = [];
+    for (let key of Object.keys(this._local)) {
+      ranges.push(...this._local[key]);
+    }
+    this._collaborators.setLocalState(this._key, ranges.length ? ranges : null);
+  }
+
+  /**
+   * Handle a change in the state of a remote collaborator.
+   */
+  private _onStateChanged(sender: ShareCollaboratorMap, args: ShareCollaboratorMap.IStateChangedArgs): void {
+    this._updateRemote(args.sessionId, args.state);
+  }
+
+  /**
+   * Move the remote selections through an edit to the text.
+   */
+  private _onTextChanged(sender: IObservableString, args: IObservableString.IChangedArgs): void {
+    if (this._blame) {
+      this._renderBlame();
+    }
+    if (this._remote.size === 0) {
+      return;
+    }
+    let length = sender.text.length;
+    let transform = (offset: number) => {
+      switch (args.type) {
+      case 'insert':
+        return offset > args.start ? offset + args.end - args.start : offset;
+      case 'remove':
+        if (offset >= args.end) {
+          return offset - (args.end - args.start);
+        }
+        return Math.min(offset, args.start);
+      default:
+        return Math.min(offset, length);
+      }
+    };
+    this._remote.forEach((ranges, id) => {
+      for (let range of ranges) {
+        range.anchor = transform(range.anchor);
+        range.head = transform(range.head);
+      }
+      this._render(id);
+    });
+  }
+
+  /**
+   * Update the selections of a remote collaborator from its state.
+   */
+  private _updateRemote(id: string, state: JSONObject | null): void {
+    let ranges = state && state[this._key] as Private.IOffsetRange[];
+    if (!ranges) {
+      this._remote.delete(id);
+      if (this.has(id)) {
+        this._updating = true;
+        this.delete(id);
+        this._updating = false;
+      }
+      return;
+    }
+    this._remote.set(id, ranges.map(range => {
+      return { anchor: range.anchor, head: range.head };
+    }));
+    this._render(id);
+  }
+
+  /**
+   * Set the editor selections for a remote collaborator.
+   */
+  private _render(id: string): void {
+    let text = this._string.text;
+    let style = Private.style(this._collaborators.get(id));
+    let selections: CodeEditor.ITextSelection[] = this._remote.get(id).map(range => {
+      return {
+        uuid: id,
+        start: Private.toPosition(text, range.anchor),
+        end: Private.toPosition(text, range.head),
+        style
+      };
+    });
+    this._updating = true;
+    this.set(id, selections);
+    this._updating = false;
+  }
+
+  /**
+   * Set the editor selections for the authors of the text.
+   */
+  private _renderBlame(): void {
+    let text = this._string.text;
+    let ranges = this._blame ? this._blame.ranges(this._string, text.length) : [];
+    let authors: { [key: string]: CodeEditor.ITextSelection[] } = {};
+    for (let range of ranges) {
+      let key = Private.BLAME_PREFIX + range.author.userId;
+      authors[key] = authors[key] || [];
+      authors[key].push({
+        uuid: key,
+        start: Private.toPosition(text, range.start),
+        end: Private.toPosition(text, range.end),
+        style: Private.style(range.author)
+      });
+    }
+    this._updating = true;
+    for (let key of this.keys()) {
+      if (key.indexOf(Private.BLAME_PREFIX) === 0 && !(key in authors)) {
+        this.delete(key);
+      }
+    }
+    for (let key of Object.keys(authors)) {
+      this.set(key, authors[key]);
+    }
+    this._updating = false;
+  }
+
+  private _string: ShareString;
+  private _collaborators: ShareCollaboratorMap;
+  private _key: string;
+  private _updating = false;
+  private _local: { [uuid: string]: Private.IOffsetRange[] } = {};
+  private _remote = new Map<string, Private.IOffsetRange[]>();
+  private _blame: ShareBlame | null = null;
+}
+
+
+/**
+ * A namespace for `ShareSelections` statics.
+ */
+export
+namespace ShareSelections {
+  /**
+   * Options for creating a `ShareSelections`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The string the selections are made in.
+     */
+    string: ShareString;
+
+    /**
+     * The collaborators to share the selections with.
+     */
+    collaborators: ShareCollaboratorMap;
+
+    /**
+     * The key under which the selections are published,
+     * which must be the same for every collaborator.
+     */
+    key: string;
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * A selection range in terms of offsets into the text.
+   */
+  export
+  interface IOffsetRange extends JSONObject {
+    /**
+     * The offset where the selection starts.
+     */
+    anchor: number;
+
+    /**
+     * The offset where the selection ends, which is the cursor.
+     */
+    head: number;
+  }
+
+  /**
+   * The prefix of the keys of the selections showing the authors of the text.
+   */
+  export
+  const BLAME_PREFIX = 'blame:';
+
+  /**
+   * The color of selections whose collaborator is unknown.
+   */
+  const UNKNOWN_COLOR = '#7f7f7f';
+
+  /**
+   * Get the style for the selections of a collaborator.
+   */
+  export
+  function style(collaborator: ShareHistory.IAuthor | undefined): CodeEditor.ISelectionStyle {
+    return {
+      className: '',
+      displayName: collaborator ? collaborator.displayName : '',
+      color: collaborator ? collaborator.color : UNKNOWN_COLOR
+    };
+  }
+
+  /**
+   * Convert a line and column position to an offset into the text.
+   */
+  export
+  function toOffset(text: string, position: CodeEditor.IPosition): number {
+    let lines = text.split('\n');
+    let offset = 0;
+    for (let i = 0; i < position.line && i < lines.length; i++) {
+      offset += lines[i].length + 1;
+    }
+    return Math.min(offset + position.column, text.length);
+  }
+
+  /**
+   * Convert an offset into the text to a line and column position.
+   */
+  export
+  function toPosition(text: string, offset: number): CodeEditor.IPosition {
+    let lines = text.slice(0, offset).split('\n');
+    return {
+      line: lines.length - 1,
+      column: lines[lines.length - 1].length
+    };
+  }
+}
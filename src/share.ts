@@ -0,0 +1,330 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONExt, PromiseDelegate
+} from '@phosphor/coreutils';
+
+import {
+  IDisposable
+} from '@phosphor/disposable';
+
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+
+/**
+ * Test whether a json0 path is equal to or lies below a base path.
+ *
+ * @param base - the base path.
+ *
+ * @param path - the path to test.
+ *
+ * @returns whether `path` starts with all the segments of `base`.
+ */
+export
+function isSubpath(base: Array<string | number>, path: Array<string | number>): boolean {
+  if (path.length < base.length) {
+    return false;
+  }
+  for (let i = 0; i < base.length; i++) {
+    if (base[i] !== path[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * A base class for observables which are backed by a path
+ * into a ShareDB document.
+ *
+ * #### Notes
+ * The primitive subscribes to the document if nobody has yet.
+ * Until the document is available, subclasses are expected
+ * to keep their state in a local buffer. Once it is available,
+ * either `copyToDoc` or `copyFromDoc` is called, depending on
+ * whether the document already has a value at `path`, after which
+ * `connected` resolves and the subclass should drop its buffer.
+ *
+ * From then on, the ops applied to the document which affect
+ * `path` are routed to `onOp`, until the primitive is disposed.
+ *
+ * Subclasses submit their ops with `submitOp`, so that the ops which
+ * fail are reported by `opFailed`. ShareDB rolls the document back
+ * when the server rejects an op, by applying its inverse as an op.
+ */
+export
+abstract class SharePrimitive implements IDisposable {
+  /**
+   * Construct a new share primitive.
+   *
+   * @param shareDoc - the ShareDB document holding the data.
+   *
+   * @param path - the json0 path of the data in the document.
+   */
+  constructor(shareDoc: any, path: Array<string | number>) {
+    this._doc = shareDoc;
+    this._path = path;
+    if (!shareDoc.subscribed) {
+      shareDoc.subscribe();
+    }
+    Private.whenCreated(shareDoc).then(() => {
+      if (this._isDisposed) {
+        return;
+      }
+      if (this.value === undefined) {
+        this.copyToDoc();
+      } else {
+        this.copyFromDoc();
+      }
+      this._doc.on('op batch', this._onDocOp);
+      this._connected.resolve(void 0);
+    });
+  }
+
+  /**
+   * The ShareDB document holding the data.
+   */
+  get doc(): any {
+    return this._doc;
+  }
+
+  /**
+   * The json0 path of the data in the document.
+   */
+  get path(): Array<string | number> {
+    return this._path;
+  }
+
+  /**
+   * The current value at `path` in the document,
+   * or `undefined` if there is none.
+   */
+  get value(): any {
+    let data = this._doc.data;
+    for (let key of this._path) {
+      if (data === undefined || data === null) {
+        return undefined;
+      }
+      data = data[key];
+    }
+    return data;
+  }
+
+  /**
+   * A promise resolved when the primitive is
+   * backed by the ShareDB document.
+   */
+  get connected(): Promise<void> {
+    return this._connected.promise;
+  }
+
+  /**
+   * A signal emitted when an op submitted by the
+   * primitive fails or is rejected by the server.
+   */
+  get opFailed(): ISignal<this, Error> {
+    return this._opFailed;
+  }
+
+  /**
+   * Test whether the primitive has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Emit the changes from a previous value to the value at `path`,
+   * after the document has changed without emitting an op.
+   *
+   * @param oldValue - the value at `path` before the change.
+   *
+   * #### Notes
+   * ShareDB replaces the data of a document without an op when it
+   * reloads it, such as after a rejected op which it cannot invert.
+   */
+  refresh(oldValue: any): void {
+    let value = this.value;
+    if (this._isDisposed || value === undefined || JSONExt.deepEqual(oldValue, value)) {
+      return;
+    }
+    let op: any = { p: this._path, oi: value };
+    if (oldValue !== undefined) {
+      op.od = oldValue;
+    }
+    this.onOp([op], false);
+  }
+
+  /**
+   * Dispose of the resources held by the primitive.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._doc.removeListener('op batch', this._onDocOp);
+    Signal.clearData(this);
+  }
+
+  /**
+   * Handle ops applied to the document.
+   *
+   * @param ops - the op components which were applied.
+   *
+   * @param isLocal - whether the ops were submitted by this client.
+   *
+   * #### Notes
+   * This is called once per submitted op which affects `path`,
+   * after all of its components have been applied. Only components
+   * at or below `path` are passed, and a component which replaces
+   * an ancestor of `path` is passed as one which replaces `path`.
+   */
+  protected abstract onOp(ops: any[], isLocal: boolean): void;
+
+  /**
+   * Submit an op to the document.
+   *
+   * @param op - the op, as a component or a list of components.
+   */
+  protected submitOp(op: any): void {
+    this._doc.submitOp(op, this._onSubmitted);
+  }
+
+  /**
+   * Replace the local state with the value at `path` in the document.
+   */
+  protected abstract copyFromDoc(): void;
+
+  /**
+   * Write the local state to `path` in the document.
+   */
+  protected abstract copyToDoc(): void;
+
+  /**
+   * Forward document ops to `onOp`.
+   *
+   * #### Notes
+   * ShareDB emits remote ops to `'op'` listeners one component
+   * at a time, whereas `'op batch'` gets the whole op.
+   */
+  private _onDocOp = (ops: any[], source: any) => {
+    let routed = Private.route(this._path, ops);
+    if (routed.length) {
+      this.onOp(routed, !!source);
+    }
+  }
+
+  /**
+   * Report the failure of a submitted op.
+   */
+  private _onSubmitted = (err: any) => {
+    if (err && !this._isDisposed) {
+      this._opFailed.emit(err);
+    }
+  }
+
+  private _doc: any;
+  private _path: Array<string | number>;
+  private _isDisposed = false;
+  private _connected = new PromiseDelegate<void>();
+  private _opFailed = new Signal<this, Error>(this);
+}
+
+
+/**
+ * A namespace for module-private functionality.
+ */
+namespace Private {
+  /**
+   * Get a promise resolved when a ShareDB document has been created,
+   * either by loading an existing snapshot or by a local create.
+   */
+  export
+  function whenCreated(doc: any): Promise<void> {
+    if (doc.type) {
+      return Promise.resolve(void 0);
+    }
+    return new Promise<void>(resolve => {
+      let onReady = () => {
+        if (!doc.type) {
+          return;
+        }
+        doc.removeListener('load', onReady);
+        doc.removeListener('create', onReady);
+        resolve(void 0);
+      };
+      doc.on('load', onReady);
+      doc.on('create', onReady);
+    });
+  }
+
+  /**
+   * Select the op components which affect a path.
+   *
+   * @param path - the path of a primitive.
+   *
+   * @param ops - the components of an op on the document.
+   *
+   * @returns the components at or below `path`. Components which
+   *   replace or delete an ancestor of `path` are converted to
+   *   components which replace or delete the value at `path`.
+   */
+  export
+  function route(path: Array<string | number>, ops: any[]): any[] {
+    let routed: any[] = [];
+    for (let op of ops) {
+      if (isSubpath(path, op.p)) {
+        routed.push(op);
+        continue;
+      }
+      if (!isSubpath(op.p, path)) {
+        continue;
+      }
+      let inserted: any;
+      let deleted: any;
+      if (op.oi !== undefined || op.od !== undefined) {
+        inserted = op.oi;
+        deleted = op.od;
+      } else if (op.li !== undefined && op.ld !== undefined) {
+        inserted = op.li;
+        deleted = op.ld;
+      } else {
+        // Inserting, removing or moving list items shifts
+        // the ancestor rather than replacing it.
+        continue;
+      }
+      let rest = path.slice(op.p.length);
+      let component: any = { p: path };
+      let oi = get(inserted, rest);
+      let od = get(deleted, rest);
+      if (oi !== undefined) {
+        component.oi = oi;
+      }
+      if (od !== undefined) {
+        component.od = od;
+      }
+      if (oi !== undefined || od !== undefined) {
+        routed.push(component);
+      }
+    }
+    return routed;
+  }
+
+  /**
+   * Get the value at a relative path in a JSON value,
+   * or `undefined` if there is none.
+   */
+  function get(data: any, path: Array<string | number>): any {
+    for (let key of path) {
+      if (data === undefined || data === null) {
+        return undefined;
+      }
+      data = data[key];
+    }
+    return data;
+  }
+}
@@ -0,0 +1,157 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  ConnectionPool
+} from './connection';
+
+import {
+  ShareModelDB
+} from './modeldb';
+
+
+/**
+ * The class name added to the status widget.
+ */
+const STATUS_CLASS = 'jp-ShareStatus';
+
+
+/**
+ * A widget which shows whether a `ShareModelDB` is in sync
+ * with the ShareDB server.
+ *
+ * #### Notes
+ * The widget shows the state of the connection, the number of
+ * local ops which the server has not acknowledged yet, and the
+ * version of the document. The state is also set as the
+ * `data-state` attribute of the node, for styling.
+ */
+export
+class ShareStatus extends Widget {
+  /**
+   * Construct a new status widget.
+   */
+  constructor() {
+    super();
+    this.addClass(STATUS_CLASS);
+    this._update();
+  }
+
+  /**
+   * The database whose status is shown, if any.
+   */
+  get model(): ShareModelDB | null {
+    return this._model;
+  }
+  set model(value: ShareModelDB | null) {
+    let old = this._model;
+    if (old === value) {
+      return;
+    }
+    if (old && !old.isDisposed) {
+      old.connectionStateChanged.disconnect(this._update, this);
+      old.syncStateChanged.disconnect(this._update, this);
+    }
+    this._model = value;
+    if (value) {
+      value.connectionStateChanged.connect(this._update, this);
+      value.syncStateChanged.connect(this._update, this);
+    }
+    this._update();
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this.model = null;
+    super.dispose();
+  }
+
+  /**
+   * Render the status of the current database.
+   */
+  private _update(): void {
+    let model = this._model;
+    if (!model || model.isDisposed) {
+      this.node.textContent = '';
+      this.node.title = '';
+      this.node.removeAttribute('data-state');
+      return;
+    }
+    let status = ShareStatus.status(model);
+    let parts = [Private.LABELS[status]];
+    let pending = model.pendingOps;
+    if (pending) {
+      parts.push(`${pending} pending`);
+    }
+    if (model.version !== null) {
+      parts.push(`v${model.version}`);
+    }
+    this.node.textContent = parts.join(' · ');
+    this.node.title = `ShareDB server: ${model.pool.url}`;
+    this.node.setAttribute('data-state', status);
+  }
+
+  private _model: ShareModelDB | null = null;
+}
+
+
+/**
+ * A namespace for `ShareStatus` statics.
+ */
+export
+namespace ShareStatus {
+  /**
+   * The sync status of a database, as shown to the user.
+   */
+  export
+  type Status = 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+  /**
+   * Get the status of a database.
+   *
+   * @param model - the database.
+   *
+   * @returns the status, which is `'reconnecting'` while the
+   *   connection is down if the pool will try to reestablish it,
+   *   and `'offline'` otherwise.
+   */
+  export
+  function status(model: ShareModelDB): Status {
+    let state: ConnectionPool.ConnectionState = model.connectionState;
+    switch (state) {
+    case 'connecting':
+    case 'connected':
+      return state;
+    case 'disconnected':
+      return model.pool.reconnect.enabled ? 'reconnecting' : 'offline';
+    default:
+      return 'offline';
+    }
+  }
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The labels shown for each status.
+   */
+  export
+  const LABELS: { [status: string]: string } = {
+    connecting: 'Connecting',
+    connected: 'Connected',
+    reconnecting: 'Reconnecting',
+    offline: 'Offline'
+  };
+}
@@ -9,6 +9,10 @@ import {
   IObservableString, ObservableString
 } from '@jupyterlab/coreutils';
 
+import {
+  diff
+} from './diff';
+
 import {
   SharePrimitive, isSubpath
 } from './share';
@@ -46,6 +50,10 @@ class ShareString extends SharePrimitive implements IObservableString {
 
   /**
    * Set the value of the string.
+   *
+   * #### Notes
+   * Only the differences from the current value are submitted,
+   * so that concurrent edits to the rest of the string survive.
    */
   set text(value: string) {
     if (value.length === this.text.length && value === this.text) {
@@ -55,7 +63,7 @@ class ShareString extends SharePrimitive implements IObservableString {
       this._str.text = value;
       return;
     }
-    this.doc.submitOp({p: this.path, oi: value});
+    this.submitOp(diff(this.text, value, this.path));
   }
 
   /**
@@ -80,7 +88,7 @@ class ShareString extends SharePrimitive implements IObservableString {
       this._str.insert(index, text);
       return;
     }
-    this.doc.submitOp({
+    this.submitOp({
       p: [...this.path, index],
       si: text
     });
@@ -98,7 +106,7 @@ class ShareString extends SharePrimitive implements IObservableString {
       this._str.remove(start, end);
       return;
     }
-    this.doc.submitOp({
+    this.submitOp({
       p: [...this.path, start],
       sd: this.text.slice(start,end)
     });
@@ -111,21 +119,19 @@ class ShareString extends SharePrimitive implements IObservableString {
     this.text = '';
   }
 
-  /**
-   * Test whether the string has been disposed.
-   */
-  get isDisposed(): boolean {
-    return false;
-  }
-
   /**
    * Dispose of the resources held by the string.
    */
   dispose(): void {
+    Signal.clearData(this);
+    super.dispose();
   }
   
   protected copyFromDoc(): void {
     let value: string = this.value;
+    if (value === this._str.text) {
+      return;
+    }
     this._changed.emit({
       type: 'set',
       start: 0,
@@ -135,43 +141,42 @@ class ShareString extends SharePrimitive implements IObservableString {
   }
 
   protected copyToDoc(): void {
-    this.doc.submitOp({p: this.path, oi: this._str.text});
+    this.submitOp({p: this.path, oi: this._str.text});
   }
 
 
   protected onOp(ops: any, isLocal: boolean) {
-    if (ops.length === 0) {
-      return;
-    } else if (ops.length > 1) {
-      throw Error('Unexpected number of ops');
-    }
-    let op = ops[0];
-    if (!isSubpath(this.path, op.p)) {
-      return;
+    let changes: IObservableString.IChangedArgs[] = [];
+    for (let op of ops) {
+      if (!isSubpath(this.path, op.p)) {
+        continue;
+      }
+      let last = op.p[op.p.length - 1];
+      if (op.oi !== undefined) { // Set case.
+        changes.push({
+          type: 'set',
+          start: 0,
+          end: op.oi.length,
+          value: op.oi
+        });
+      } else if (op.si) { // Insert case.
+        changes.push({
+          type: 'insert',
+          start: last,
+          end: last + op.si.length,
+          value: op.si
+        });
+      } else if (op.sd) { //Delete case.
+        changes.push({
+          type: 'remove',
+          start: last,
+          end: last + op.sd.length,
+          value: op.sd
+        });
+      }
     }
-
-    let last = op.p.slice(-1).pop();
-    if (op.oi !== undefined) { // Set case.
-      this._changed.emit({
-        type: 'set',
-        start: 0,
-        end: op.oi.length,
-        value: op.oi
-      });
-    } else if (op.si) { // Insert case.
-      this._changed.emit({
-        type: 'insert',
-        start: last,
-        end: last + op.si.length,
-        value: op.si
-      });
-    } else if (op.sd) { //Delete case.
-      this._changed.emit({
-        type: 'remove',
-        start: last,
-        end: last + op.sd.length,
-        value: op.sd
-      });
+    for (let change of Private.coalesce(changes)) {
+      this._changed.emit(change);
     }
   }
 
@@ -183,3 +188,35 @@ class ShareString extends SharePrimitive implements IObservableString {
   private _changed = new Signal<this, IObservableString.IChangedArgs>(this);
   private _str: ObservableString | null = new ObservableString();
 }
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Merge adjacent string changes which can be described
+   * by a single change, such as consecutive insertions.
+   */
+  export
+  function coalesce(changes: IObservableString.IChangedArgs[]): IObservableString.IChangedArgs[] {
+    let result: IObservableString.IChangedArgs[] = [];
+    for (let change of changes) {
+      let last = result[result.length - 1];
+      if (last && last.type === 'insert' && change.type === 'insert' &&
+          change.start === last.end) {
+        last.end = change.end;
+        last.value += change.value;
+        continue;
+      }
+      if (last && last.type === 'remove' && change.type === 'remove' &&
+          change.start === last.start) {
+        last.end += change.end - change.start;
+        last.value += change.value;
+        continue;
+      }
+      result.push(change);
+    }
+    return result;
+  }
+}
@@ -2,13 +2,9 @@
 // Distributed under the terms of the Modified BSD License.
 
 import {
-  JSONValue
+  JSONExt, JSONValue
 } from '@phosphor/coreutils';
 
-import {
-  each
-} from '@phosphor/algorithm';
-
 import {
   IObservableUndoableList, IObservableList,
 } from '@jupyterlab/coreutils';
@@ -17,8 +13,21 @@ import {
   ShareList
 } from './list';
 
+import {
+  isSubpath
+} from './share';
+
+declare let require: any;
+let json0 = require('sharedb/lib/client').types.defaultType;
+
 /**
  * A concrete implementation of a realtime undoable list.
+ *
+ * #### Notes
+ * Only changes made by the local user are recorded. The stacks
+ * hold json0 ops relative to the list, which are transformed
+ * against the ops of other users as they arrive, so that undo
+ * and redo reverse exactly the local changes, at the right indices.
  */
 export
 class ShareUndoableList<T extends JSONValue> extends ShareList<T> implements IObservableUndoableList<T> {
@@ -28,20 +37,23 @@ class ShareUndoableList<T extends JSONValue> extends ShareList<T> implements IOb
   constructor(shareDoc: any, path: Array<number | string>) {
     super(shareDoc, path);
     this.changed.connect(this._onListChanged, this);
+    this.connected.then(() => {
+      this._isConnected = true;
+    });
   }
 
   /**
    * Whether the object can redo changes.
    */
   get canRedo(): boolean {
-    return this._index < this._stack.length - 1;
+    return this._redoStack.length > 0;
   }
 
   /**
    * Whether the object can undo changes.
    */
   get canUndo(): boolean {
-    return this._index >= 0;
+    return this._undoStack.length > 0;
   }
 
   /**
@@ -62,9 +74,6 @@ class ShareUndoableList<T extends JSONValue> extends ShareList<T> implements IOb
   endCompoundOperation(): void {
     this._inCompound = false;
     this._isUndoable = true;
-    if (this._madeCompoundChange) {
-      this._index++;
-    }
   }
 
   /**
@@ -74,13 +83,9 @@ class ShareUndoableList<T extends JSONValue> extends ShareList<T> implements IOb
     if (!this.canUndo) {
       return;
     }
-    let changes = this._stack[this._index];
-    this._isUndoable = false;
-    for (let change of changes.reverse()) {
-      this._undoChange(change);
-    }
-    this._isUndoable = true;
-    this._index--;
+    let op = this._undoStack.pop();
+    this._redoStack.push(json0.invert(op));
+    this._applyOp(op);
   }
 
   /**
@@ -90,136 +95,186 @@ class ShareUndoableList<T extends JSONValue> extends ShareList<T> implements IOb
     if (!this.canRedo) {
       return;
     }
-    this._index++;
-    let changes = this._stack[this._index];
-    this._isUndoable = false;
-    for (let change of changes) {
-      this._redoChange(change);
-    }
-    this._isUndoable = true;
+    let op = this._redoStack.pop();
+    this._undoStack.push(json0.invert(op));
+    this._applyOp(op);
   }
 
   /**
    * Clear the change stack.
    */
   clearUndo(): void {
-    this._index = -1;
-    this._stack = [];
+    this._undoStack = [];
+    this._redoStack = [];
+  }
+
+  protected onOp(ops: any, isLocal: boolean) {
+    if (isLocal) {
+      super.onOp(ops, isLocal);
+      return;
+    }
+    this._transformStacks(Private.relativeOp(ops, this.path));
+    this._isRemote = true;
+    try {
+      super.onOp(ops, isLocal);
+    } finally {
+      this._isRemote = false;
+    }
+  }
+
+  protected copyFromDoc(): void {
+    // The local changes were made to a list which
+    // has been replaced, so they cannot be undone.
+    this._isRemote = true;
+    try {
+      super.copyFromDoc();
+    } finally {
+      this._isRemote = false;
+    }
+    this.clearUndo();
   }
 
   /**
    * Handle a change in the list.
    */
   private _onListChanged(list: IObservableList<T>, change: IObservableList.IChangedArgs<T>): void {
-    if (this.isDisposed || !this._isUndoable) {
+    if (this.isDisposed || this._isRemote || this._isApplying) {
       return;
     }
-    // Clear everything after this position if necessary.
-    if (!this._inCompound || !this._madeCompoundChange) {
-      this._stack = this._stack.slice(0, this._index + 1);
+    let op = Private.changeToOp(change);
+    if (!this._isUndoable) {
+      // Treat changes which are not undoable like remote ones.
+      this._transformStacks(op);
+      return;
     }
-    // Copy the change.
-    let evt = this._copyChange(change);
-    // Put the change in the stack.
-    if (this._stack[this._index + 1]) {
-      this._stack[this._index + 1].push(evt);
+    let inverse = json0.invert(op);
+    this._redoStack = [];
+    if (this._inCompound && this._madeCompoundChange) {
+      // Later changes of a compound operation are undone first.
+      let top = this._undoStack.pop();
+      this._undoStack.push([...inverse, ...top]);
     } else {
-      this._stack.push([evt]);
+      this._undoStack.push(inverse);
     }
-    // If not in a compound operation, increase index.
-    if (!this._inCompound) {
-      this._index++;
-    } else {
+    if (this._inCompound) {
       this._madeCompoundChange = true;
     }
   }
 
   /**
-   * Undo a change event.
+   * Transform the undo and redo stacks against an op
+   * which has been applied to the list.
+   *
+   * #### Notes
+   * The top entry of each stack applies to the current list,
+   * and each entry below applies to the list after the one
+   * above it, so the op is transformed down the stack with them.
    */
-  private _undoChange(change: IObservableList.IChangedArgs<T>): void {
-    let index = 0;
-    switch (change.type) {
-    case 'add':
-      each(change.newValues, () => {
-        this.remove(change.newIndex);
-      });
-      break;
-    case 'set':
-      index = change.oldIndex;
-      each(change.oldValues, value => {
-        this.set(index++, value);
-      });
-      break;
-    case 'remove':
-      index = change.oldIndex;
-      each(change.oldValues, value => {
-        this.insert(index++, value);
-      });
-      break;
-    case 'move':
-      this.move(change.newIndex, change.oldIndex);
-      break;
-    default:
+  private _transformStacks(op: any[]): void {
+    if (op.length === 0) {
+      return;
+    }
+    if (op.some(component => component.p.length === 0)) {
+      // The whole list was replaced.
+      this.clearUndo();
       return;
     }
+    let transform = (stack: any[][]) => {
+      let other = op;
+      for (let i = stack.length - 1; i >= 0; i--) {
+        let entry = stack[i];
+        stack[i] = json0.transform(entry, other, 'left');
+        other = json0.transform(other, entry, 'right');
+      }
+    };
+    transform(this._undoStack);
+    transform(this._redoStack);
   }
 
   /**
-   * Redo a change event.
+   * Apply an op from one of the stacks to the list.
    */
-  private _redoChange(change: IObservableList.IChangedArgs<T>): void {
-    let index = 0;
+  private _applyOp(op: any[]): void {
+    this._isApplying = true;
+    try {
+      if (this._isConnected) {
+        if (op.length) {
+          this.submitOp(op.map(component => {
+            return { ...component, p: [...this.path, ...component.p] };
+          }));
+        }
+        return;
+      }
+      for (let component of op) {
+        let index = component.p[0];
+        if (component.lm !== undefined) {
+          this.move(index, component.lm);
+        } else if (component.li !== undefined && component.ld !== undefined) {
+          this.set(index, component.li);
+        } else if (component.li !== undefined) {
+          this.insert(index, component.li);
+        } else if (component.ld !== undefined) {
+          this.remove(index);
+        }
+      }
+    } finally {
+      this._isApplying = false;
+    }
+  }
+
+  private _inCompound = false;
+  private _isUndoable = true;
+  private _madeCompoundChange = false;
+  private _isRemote = false;
+  private _isApplying = false;
+  private _isConnected = false;
+  private _undoStack: any[][] = [];
+  private _redoStack: any[][] = [];
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Convert a list change to a json0 op relative to the list.
+   */
+  export
+  function changeToOp<T extends JSONValue>(change: IObservableList.IChangedArgs<T>): any[] {
+    let copy = (value: T) => JSONExt.deepCopy(value);
     switch (change.type) {
     case 'add':
-      index = change.newIndex;
-      each(change.newValues, value => {
-        this.insert(index++, value);
+      return change.newValues.map((value, i) => {
+        return { p: [change.newIndex + i], li: copy(value) };
       });
-      break;
-    case 'set':
-      index = change.newIndex;
-      each(change.newValues, value => {
-        this.set(change.newIndex++, value);
-      });
-      break;
     case 'remove':
-      each(change.oldValues, () => {
-        this.remove(change.oldIndex);
+      return change.oldValues.map(value => {
+        return { p: [change.oldIndex], ld: copy(value) };
+      });
+    case 'set':
+      return change.newValues.map((value, i) => {
+        return {
+          p: [change.newIndex + i],
+          ld: copy(change.oldValues[i]),
+          li: copy(value)
+        };
       });
-      break;
     case 'move':
-      this.move(change.oldIndex, change.newIndex);
-      break;
+      return [{ p: [change.oldIndex], lm: change.newIndex }];
     default:
-      return;
+      return [];
     }
   }
 
   /**
-   * Copy a change as JSON.
+   * Get the components of a document op which apply to
+   * a list, with their paths made relative to the list.
    */
-  private _copyChange(change: IObservableList.IChangedArgs<T>): IObservableList.IChangedArgs<T> {
-    let oldValues: T[] = [];
-    each(change.oldValues, value => {
-      oldValues.push(value);
-    });
-    let newValues: T[] = [];
-    each(change.newValues, value => {
-      newValues.push(value);
+  export
+  function relativeOp(ops: any[], path: Array<string | number>): any[] {
+    return ops.filter(op => isSubpath(path, op.p)).map(op => {
+      return { ...op, p: op.p.slice(path.length) };
     });
-    return {
-      type: change.type,
-      oldIndex: change.oldIndex,
-      newIndex: change.newIndex,
-      oldValues,
-      newValues
-    };
   }
-
-  private _inCompound = false;
-  private _isUndoable = true;
-  private _madeCompoundChange = false;
-  private _index = -1;
-  private _stack: IObservableList.IChangedArgs<T>[][] = [];
 }
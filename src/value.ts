@@ -2,7 +2,7 @@
 // Distributed under the terms of the Modified BSD License.
 
 import {
-  JSONValue, JSONExt
+  JSONExt, JSONValue
 } from '@phosphor/coreutils';
 
 import {
@@ -14,9 +14,16 @@ import {
 } from '@jupyterlab/coreutils';
 
 import {
-  SharePrimitive, isSubpath
+  diff
+} from './diff';
+
+import {
+  SharePrimitive
 } from './share';
 
+declare let require: any;
+let json0 = require('sharedb/lib/client').types.defaultType;
+
 
 /**
  * A concrete implementation of an [[IObservableValue]]
@@ -55,6 +62,13 @@ class ShareValue extends SharePrimitive implements IObservableValue {
     return this.value;
   }
 
+  /**
+   * Set the value.
+   *
+   * #### Notes
+   * Only the parts of the value which differ from the current one
+   * are submitted, so that concurrent edits to other parts survive.
+   */
   set(value: JSONValue): void {
     if (JSONExt.deepEqual(value, this.get())) {
       return;
@@ -63,26 +77,21 @@ class ShareValue extends SharePrimitive implements IObservableValue {
       this._val.set(value);
       return; 
     }
-    this.doc.submitOp({
-      p: this.path,
-      oi: value 
-    });
-  }
-
-  /**
-   * Test whether the string has been disposed.
-   */
-  get isDisposed(): boolean {
-    return false;
+    this.submitOp(diff(this.value, value, this.path));
   }
 
   /**
-   * Dispose of the resources held by the string.
+   * Dispose of the resources held by the value.
    */
   dispose(): void {
+    Signal.clearData(this);
+    super.dispose();
   }
   
   protected copyFromDoc(): void {
+    if (JSONExt.deepEqual(this._val.get(), this.value)) {
+      return;
+    }
     this._changed.emit({
       oldValue: this._val.get(),
       newValue: this.value
@@ -90,27 +99,23 @@ class ShareValue extends SharePrimitive implements IObservableValue {
   }
 
   protected copyToDoc(): void {
-    this.doc.submitOp({p: this.path, oi: this._val.get()});
+    this.submitOp({p: this.path, oi: this._val.get()});
   }
 
 
   protected onOp(ops: any, isLocal: boolean) {
-    if (ops.length === 0) {
+    // Report a single change from the value before
+    // the op to the value after it.
+    let newValue = this.value;
+    let inverse = json0.invert(ops.map((op: any) => {
+      return { ...op, p: op.p.slice(this.path.length) };
+    }));
+    let current = newValue === undefined ? null : JSONExt.deepCopy(newValue);
+    let oldValue = json0.apply(current, inverse);
+    if (JSONExt.deepEqual(oldValue, newValue)) {
       return;
-    } else if (ops.length > 1) {
-      throw Error('Unexpected number of ops');
-    }
-    let op = ops[0];
-    if (!isSubpath(this.path, op.p)) {
-      return;
-    }
-
-    if (op.oi !== undefined) { // Reset case.
-      this._changed.emit({
-        oldValue: op.od,
-        newValue: op.oi
-      });
     }
+    this._changed.emit({ oldValue, newValue });
   }
 
   private _onChange(source: ObservableValue, args: ObservableValue.IChangedArgs): void {
@@ -0,0 +1,323 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Duplex
+} from 'stream';
+
+import {
+  ConnectionPool
+} from '../../src/connection';
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+declare let require: any;
+let ShareDB = require('sharedb');
+
+
+/**
+ * An in-process ShareDB server, which clients reach through
+ * simulated sockets with a controllable latency.
+ *
+ * #### Notes
+ * Every message is delayed by `latency` plus a random amount of
+ * up to `jitter` milliseconds. Each socket delivers its messages
+ * in order, like a real one, but messages from different clients
+ * can reach the server in any order.
+ */
+export
+class TestBackend {
+  /**
+   * Construct a new test backend.
+   */
+  constructor(options: TestBackend.IOptions = {}) {
+    this.latency = options.latency || 0;
+    this.jitter = options.jitter || 0;
+    this.random = options.random || Math.random;
+    this.backend = new ShareDB({ presence: true });
+  }
+
+  /**
+   * The ShareDB backend, with an in-memory database.
+   */
+  readonly backend: any;
+
+  /**
+   * The minimum delay of a message in milliseconds.
+   */
+  latency: number;
+
+  /**
+   * The maximum extra delay of a message in milliseconds.
+   */
+  jitter: number;
+
+  /**
+   * The source of randomness for the jitter.
+   */
+  random: () => number;
+
+  /**
+   * The sockets which have been opened.
+   */
+  get sockets(): ReadonlyArray<TestSocket> {
+    return this._sockets;
+  }
+
+  /**
+   * Open a socket to the server, for use as a connection
+   * pool's `createSocket` option.
+   */
+  createSocket = (url: string): TestSocket => {
+    let socket = new TestSocket(this);
+    this._sockets.push(socket);
+    return socket;
+  }
+
+  /**
+   * Create a database for a simulated client, with its own connection.
+   *
+   * @param documentId - the id of the document backing the database.
+   *
+   * #### Notes
+   * The database and its pool are disposed when the backend is closed.
+   */
+  createModelDB(documentId = 'doc'): ShareModelDB {
+    let pool = new ConnectionPool({
+      url: 'ws://test',
+      createSocket: this.createSocket
+    });
+    let modelDB = new ShareModelDB({
+      pool, collection: 'test', documentId
+    });
+    this._pools.push(pool);
+    this._modelDBs.push(modelDB);
+    return modelDB;
+  }
+
+  /**
+   * Wait until no messages are in flight on any socket.
+   *
+   * #### Notes
+   * Clients and the server send some messages asynchronously,
+   * so the sockets must be idle for two polls in a row.
+   */
+  settle(): Promise<void> {
+    return new Promise<void>(resolve => {
+      let idle = 0;
+      let poll = () => {
+        let busy = this._sockets.some(socket => {
+          return socket.inFlight > 0 && !socket.isPaused;
+        });
+        idle = busy ? 0 : idle + 1;
+        if (idle < 2) {
+          setTimeout(poll, Private.POLL_INTERVAL);
+        } else {
+          resolve(void 0);
+        }
+      };
+      setTimeout(poll, Private.POLL_INTERVAL);
+    });
+  }
+
+  /**
+   * Dispose of the databases, and close every socket and the backend.
+   */
+  close(): Promise<void> {
+    for (let modelDB of this._modelDBs) {
+      modelDB.dispose();
+    }
+    for (let pool of this._pools) {
+      pool.dispose();
+    }
+    for (let socket of this._sockets) {
+      socket.close();
+    }
+    return new Promise<void>(resolve => {
+      this.backend.close(() => { resolve(void 0); });
+    });
+  }
+
+  /**
+   * Compute the delay for the next message.
+   */
+  delay(): number {
+    return this.latency + Math.floor(this.random() * (this.jitter + 1));
+  }
+
+  private _sockets: TestSocket[] = [];
+  private _pools: ConnectionPool[] = [];
+  private _modelDBs: ShareModelDB[] = [];
+}
+
+
+/**
+ * A namespace for `TestBackend` statics.
+ */
+export
+namespace TestBackend {
+  /**
+   * Options for creating a `TestBackend`.
+   */
+  export
+  interface IOptions {
+    /**
+     * The minimum delay of a message in milliseconds.
+     * Defaults to zero.
+     */
+    latency?: number;
+
+    /**
+     * The maximum extra delay of a message in milliseconds.
+     * Defaults to zero.
+     */
+    jitter?: number;
+
+    /**
+     * The source of randomness for the jitter.
+     * Defaults to `Math.random`.
+     */
+    random?: () => number;
+  }
+}
+
+
+/**
+ * A simulated WebSocket between a ShareDB client and a `TestBackend`.
+ */
+export
+class TestSocket {
+  /**
+   * Construct a new socket, and start opening it.
+   */
+  constructor(server: TestBackend) {
+    this._server = server;
+    this._stream = new Duplex({
+      objectMode: true,
+      read: () => { /* Messages are pushed as they are sent. */ },
+      write: (chunk: any, encoding: string, callback: () => void) => {
+        this._deliver(() => {
+          this.onmessage({ data: JSON.stringify(chunk) });
+        });
+        callback();
+      }
+    });
+    this._stream.on('finish', () => { this.close('stopped'); });
+    server.backend.listen(this._stream);
+    this._deliver(() => {
+      this.readyState = 1;
+      this.onopen();
+    });
+  }
+
+  /**
+   * The WebSocket ready state: 0 while connecting,
+   * 1 when open and 3 when closed.
+   */
+  readyState = 0;
+
+  /**
+   * The number of messages which have not been delivered yet.
+   */
+  get inFlight(): number {
+    return this._inFlight;
+  }
+
+  /**
+   * Whether delivery is paused.
+   */
+  get isPaused(): boolean {
+    return this._paused !== null;
+  }
+
+  onopen: () => void = () => { /* no-op */ };
+  onmessage: (event: { data: string }) => void = () => { /* no-op */ };
+  onclose: (reason: string) => void = () => { /* no-op */ };
+  onerror: (err: any) => void = () => { /* no-op */ };
+
+  /**
+   * Send a message to the server.
+   */
+  send(data: string): void {
+    let message = JSON.parse(data);
+    this._deliver(() => { this._stream.push(message); });
+  }
+
+  /**
+   * Close the socket, dropping the messages in flight.
+   */
+  close(reason = 'closed'): void {
+    if (this.readyState === 3) {
+      return;
+    }
+    this.readyState = 3;
+    this._inFlight = 0;
+    this._paused = null;
+    this._stream.push(null);
+    this.onclose(reason);
+  }
+
+  /**
+   * Stop delivering messages in both directions,
+   * holding them until `resume` is called.
+   */
+  pause(): void {
+    if (this._paused === null) {
+      this._paused = [];
+    }
+  }
+
+  /**
+   * Deliver the held messages in order, and resume delivery.
+   */
+  resume(): void {
+    let held = this._paused || [];
+    this._paused = null;
+    for (let deliver of held) {
+      deliver();
+    }
+  }
+
+  /**
+   * Deliver a message after a delay, keeping messages in order.
+   */
+  private _deliver(deliver: () => void): void {
+    this._inFlight++;
+    let time = Math.max(Date.now() + this._server.delay(), this._last);
+    this._last = time;
+    setTimeout(() => {
+      let send = () => {
+        if (this.readyState === 3) {
+          return;
+        }
+        this._inFlight--;
+        deliver();
+      };
+      if (this._paused) {
+        this._paused.push(send);
+      } else {
+        send();
+      }
+    }, time - Date.now());
+  }
+
+  private _server: TestBackend;
+  private _stream: Duplex;
+  private _inFlight = 0;
+  private _last = 0;
+  private _paused: Array<() => void> | null = null;
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The interval in milliseconds at which to poll for idle sockets.
+   */
+  export
+  const POLL_INTERVAL = 5;
+}
@@ -0,0 +1,175 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ShareBlame
+} from '../../src/blame';
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+import {
+  ShareString
+} from '../../src/string';
+
+import {
+  TestBackend
+} from './backend';
+
+
+/**
+ * A collaborator as recorded by the ShareDB server.
+ */
+const ADA = { userId: 'ada', displayName: 'Ada', color: '#ff0000' };
+
+
+describe('ShareBlame', () => {
+
+  let server: TestBackend;
+  let db: ShareModelDB;
+  let text: ShareString;
+  let blame: ShareBlame;
+  let recorder: any;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Record the authors like the ShareDB server does.
+    recorder = server.backend.connect().get('test', ShareBlame.blameId('doc'));
+    db = server.createModelDB();
+    text = db.createString('value') as ShareString;
+    text.text = 'hello world';
+    return db.connected.then(() => {
+      return server.settle();
+    }).then(() => {
+      return Private.record(recorder, [{ author: null, length: 6 }, { author: 'ada', length: 5 }]);
+    }).then(() => {
+      blame = new ShareBlame({ modelDB: db });
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    blame.dispose();
+    return server.close();
+  });
+
+  describe('#ranges()', () => {
+
+    it('should list the ranges of the text whose author is known', () => {
+      expect(blame.ranges(text)).to.eql([{ start: 6, end: 11, author: ADA }]);
+    });
+
+    it('should leave out the ranges beyond a length', () => {
+      expect(blame.ranges(text, 8)).to.eql([{ start: 6, end: 8, author: ADA }]);
+      expect(blame.ranges(text, 6)).to.eql([]);
+    });
+
+  });
+
+  describe('#changed', () => {
+
+    it('should be emitted when the authors change', () => {
+      let changed = 0;
+      blame.changed.connect(() => { changed++; });
+      return Private.record(recorder, [{ author: 'ada', length: 11 }]).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(changed).to.be.greaterThan(0);
+        expect(blame.ranges(text)).to.eql([{ start: 0, end: 11, author: ADA }]);
+      });
+    });
+
+  });
+
+  describe('.blameId()', () => {
+
+    it('should be shared by the documents of a file', () => {
+      expect(ShareBlame.blameId('issue%2312.ipynb')).to.be('issue%2312.ipynb#$blame');
+      expect(ShareBlame.blameId('issue%2312.ipynb#cells.a')).to.be('issue%2312.ipynb#$blame');
+    });
+
+  });
+
+  describe('ShareModelDB#showBlame', () => {
+
+    it('should show the authors in the selections of the editors', () => {
+      let selections = db.createMap('selections');
+      db.showBlame = true;
+      return server.settle().then(() => {
+        expect(selections.get('blame:ada')).to.eql([{
+          uuid: 'blame:ada',
+          start: { line: 0, column: 6 },
+          end: { line: 0, column: 11 },
+          style: { className: '', displayName: 'Ada', color: '#ff0000' }
+        }]);
+        db.showBlame = false;
+        expect(selections.has('blame:ada')).to.be(false);
+      });
+    });
+
+    it('should be shared by the views of the database', () => {
+      let view = db.view('cell', true);
+      let cell = view.createString('value');
+      let selections = view.createMap('selections');
+      cell.text = 'abc';
+      db.showBlame = true;
+      expect(view.showBlame).to.be(true);
+      return view.connected.then(() => server.settle()).then(() => {
+        return Private.record(recorder, [], { 'doc#cell': { '["value"]': [{ author: 'ada', length: 2 }] } });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(selections.get('blame:ada')).to.have.length(1);
+        view.showBlame = false;
+        expect(db.showBlame).to.be(false);
+      });
+    });
+
+    it('should not publish the authors to collaborators', () => {
+      let other = server.createModelDB();
+      other.createString('value');
+      let selections = other.createMap('selections');
+      return other.connected.then(() => {
+        db.createMap('selections');
+        db.showBlame = true;
+        return server.settle();
+      }).then(() => {
+        expect(selections.keys()).to.eql([]);
+      });
+    });
+
+  });
+
+});
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Record the authors of the text of the document.
+   */
+  export
+  function record(doc: any, runs: any[], views: any = {}): Promise<void> {
+    let data = {
+      authors: { ada: ADA },
+      documents: { doc: { '["value"]': runs }, ...views }
+    };
+    return new Promise<void>((resolve, reject) => {
+      let done = (err: any) => { err ? reject(err) : resolve(void 0); };
+      doc.fetch((err: any) => {
+        if (err) {
+          reject(err);
+        } else if (!doc.type) {
+          doc.create(data, done);
+        } else {
+          doc.submitOp({ p: [], od: doc.data, oi: data }, done);
+        }
+      });
+    });
+  }
+}
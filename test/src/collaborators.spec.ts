@@ -0,0 +1,182 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ICollaborator, IObservableMap
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareCollaboratorMap
+} from '../../src/collaborators';
+
+import {
+  TestBackend, TestSocket
+} from './backend';
+
+declare let require: any;
+let sharedb = require('sharedb/lib/client');
+
+
+describe('ShareCollaboratorMap', () => {
+
+  let server: TestBackend;
+  let maps: ShareCollaboratorMap[];
+  let sockets: TestSocket[];
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    maps = [];
+    sockets = [];
+  });
+
+  afterEach(() => {
+    for (let map of maps) {
+      map.dispose();
+    }
+    return server.close();
+  });
+
+  /**
+   * Create a collaborator map for a new client.
+   */
+  function createMap(name: string, heartbeat?: number): ShareCollaboratorMap {
+    let socket = server.createSocket('ws://test');
+    let map = new ShareCollaboratorMap({
+      connection: new sharedb.Connection(socket),
+      channel: ShareCollaboratorMap.channel('test', 'doc'),
+      localCollaborator: ShareCollaboratorMap.createLocalCollaborator(name),
+      heartbeat,
+      timeout: heartbeat && 3 * heartbeat
+    });
+    maps.push(map);
+    sockets.push(socket);
+    return map;
+  }
+
+  /**
+   * Wait for a map to add or remove a collaborator.
+   */
+  function changed(map: ShareCollaboratorMap, type: 'add' | 'remove', id: string): Promise<void> {
+    return new Promise<void>(resolve => {
+      let onChanged = (sender: ShareCollaboratorMap, args: IObservableMap.IChangedArgs<ICollaborator>) => {
+        if (args.type === type && args.key === id) {
+          map.changed.disconnect(onChanged);
+          resolve(void 0);
+        }
+      };
+      map.changed.connect(onChanged);
+    });
+  }
+
+  /**
+   * Wait for some time.
+   */
+  function sleep(ms: number): Promise<void> {
+    return new Promise<void>(resolve => { setTimeout(resolve, ms); });
+  }
+
+  describe('#constructor()', () => {
+
+    it('should include the local collaborator', () => {
+      let map = createMap('Ada Lovelace');
+      let local = map.localCollaborator;
+      expect(map.get(local.sessionId)).to.be(local);
+      expect(local.displayName).to.be('Ada Lovelace');
+      expect(local.shortName).to.be('AL');
+    });
+
+    it('should sync the collaborators of every client', () => {
+      let first = createMap('Ada');
+      let second = createMap('Grace');
+      return server.settle().then(() => {
+        let ids = [first.localCollaborator.sessionId, second.localCollaborator.sessionId];
+        expect(first.keys().sort()).to.eql(ids.sort());
+        expect(second.keys().sort()).to.eql(ids.sort());
+        let remote = first.get(second.localCollaborator.sessionId);
+        expect(remote).to.eql(second.localCollaborator);
+      });
+    });
+
+  });
+
+  describe('#setLocalState()', () => {
+
+    it('should publish the state to the other clients', () => {
+      let first = createMap('Ada');
+      let second = createMap('Grace');
+      let id = first.localCollaborator.sessionId;
+      let states: ShareCollaboratorMap.IStateChangedArgs[] = [];
+      return server.settle().then(() => {
+        second.stateChanged.connect((sender, args) => { states.push(args); });
+        first.setLocalState('cursor', 3);
+        return server.settle();
+      }).then(() => {
+        expect(second.getState(id)).to.eql({ cursor: 3 });
+        first.setLocalState('cursor', null);
+        return server.settle();
+      }).then(() => {
+        expect(second.getState(id)).to.eql({});
+        expect(states).to.eql([
+          { sessionId: id, state: { cursor: 3 } },
+          { sessionId: id, state: {} }
+        ]);
+      });
+    });
+
+  });
+
+  describe('#dispose()', () => {
+
+    it('should remove the collaborator from the other clients', () => {
+      let first = createMap('Ada');
+      let second = createMap('Grace');
+      let id = second.localCollaborator.sessionId;
+      let states: ShareCollaboratorMap.IStateChangedArgs[] = [];
+      return server.settle().then(() => {
+        first.stateChanged.connect((sender, args) => { states.push(args); });
+        second.dispose();
+        return server.settle();
+      }).then(() => {
+        expect(first.has(id)).to.be(false);
+        expect(first.getState(id)).to.be(null);
+        expect(states).to.eql([{ sessionId: id, state: null }]);
+      });
+    });
+
+  });
+
+  describe('heartbeat', () => {
+
+    it('should keep the collaborators which keep publishing', () => {
+      let first = createMap('Ada', 20);
+      let second = createMap('Grace', 20);
+      return sleep(150).then(() => {
+        expect(first.has(second.localCollaborator.sessionId)).to.be(true);
+        expect(second.has(first.localCollaborator.sessionId)).to.be(true);
+      });
+    });
+
+    it('should remove the collaborators whose heartbeat timed out', () => {
+      let first = createMap('Ada', 20);
+      let second = createMap('Grace', 20);
+      let id = second.localCollaborator.sessionId;
+      return server.settle().then(() => {
+        expect(first.has(id)).to.be(true);
+        // Hold the messages of the second client without closing its socket.
+        sockets[1].pause();
+        return changed(first, 'remove', id);
+      }).then(() => {
+        expect(first.has(id)).to.be(false);
+        expect(first.getState(id)).to.be(null);
+        sockets[1].resume();
+        return changed(first, 'add', id);
+      }).then(() => {
+        expect(first.has(id)).to.be(true);
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,393 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ConnectionPool
+} from '../../src/connection';
+
+import {
+  TestBackend, TestSocket
+} from './backend';
+
+
+describe('ConnectionPool', () => {
+
+  let server: TestBackend;
+  let pool: ConnectionPool;
+  let writer: any;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 5 });
+    pool = new ConnectionPool({ url: 'ws://test', createSocket: server.createSocket });
+    writer = server.backend.connect().get('test', 'doc');
+    return Private.callback(done => { writer.create({ text: 'a' }, done); });
+  });
+
+  afterEach(() => {
+    pool.dispose();
+    return server.close();
+  });
+
+  describe('#acquire()', () => {
+
+    it('should open the connection', () => {
+      expect(pool.connection).to.be(null);
+      pool.acquire('test', 'doc');
+      expect(pool.connection).to.not.be(null);
+    });
+
+    it('should give every caller the same document', () => {
+      let doc = pool.acquire('test', 'doc');
+      expect(pool.acquire('test', 'doc')).to.be(doc);
+    });
+
+    it('should keep a document which is acquired again right after its release', () => {
+      let doc = pool.acquire('test', 'doc');
+      return Private.subscribe(doc).then(() => {
+        pool.release(doc);
+        let again = pool.acquire('test', 'doc');
+        expect(again).to.be(doc);
+        return Private.subscribe(again);
+      }).then(() => {
+        return Private.submit(writer, { p: ['text', 1], si: 'b' });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(pool.connection.get('test', 'doc')).to.be(doc);
+        expect(doc.data.text).to.be('ab');
+      });
+    });
+
+    it('should keep a document which is acquired again while it is unsubscribing', () => {
+      let doc = pool.acquire('test', 'doc');
+      pool.acquire('test', 'other');
+      let socket: TestSocket;
+      let again: any;
+      return Private.subscribe(doc).then(() => {
+        socket = server.sockets[0];
+        socket.pause();
+        pool.release(doc);
+        return new Promise<void>(resolve => { setTimeout(resolve, 10); });
+      }).then(() => {
+        again = pool.acquire('test', 'doc');
+        socket.resume();
+        return Private.subscribe(again);
+      }).then(() => {
+        return Private.submit(writer, { p: ['text', 1], si: 'b' });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(again).to.be(doc);
+        expect(pool.connection.get('test', 'doc')).to.be(doc);
+        expect(doc.data.text).to.be('ab');
+      });
+    });
+
+    it('should give a new document once the released one is destroyed', () => {
+      let doc = pool.acquire('test', 'doc');
+      pool.acquire('test', 'other');
+      let again: any;
+      return Private.subscribe(doc).then(() => {
+        pool.release(doc);
+        return server.settle();
+      }).then(() => {
+        again = pool.acquire('test', 'doc');
+        expect(again).to.not.be(doc);
+        return Private.subscribe(again);
+      }).then(() => {
+        return Private.submit(writer, { p: ['text', 1], si: 'b' });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(pool.connection.get('test', 'doc')).to.be(again);
+        expect(again.data.text).to.be('ab');
+      });
+    });
+
+  });
+
+  describe('#release()', () => {
+
+    it('should keep the document until every reference is released', () => {
+      let doc = pool.acquire('test', 'doc');
+      pool.acquire('test', 'doc');
+      return Private.subscribe(doc).then(() => {
+        pool.release(doc);
+        return server.settle();
+      }).then(() => {
+        expect(pool.connection.get('test', 'doc')).to.be(doc);
+        expect(pool.state).to.be('connected');
+      });
+    });
+
+    it('should close the connection once every document is released', () => {
+      let doc = pool.acquire('test', 'doc');
+      return Private.subscribe(doc).then(() => {
+        pool.release(doc);
+        return server.settle();
+      }).then(() => {
+        expect(pool.connection).to.be(null);
+        expect(pool.state).to.be('closed');
+      });
+    });
+
+    it('should send the pending ops before closing the connection', () => {
+      let doc = pool.acquire('test', 'doc');
+      return Private.subscribe(doc).then(() => {
+        doc.submitOp({ p: ['text', 1], si: 'c' });
+        pool.release(doc);
+        return server.settle();
+      }).then(() => {
+        return Private.callback(done => { writer.fetch(done); });
+      }).then(() => {
+        expect(writer.data.text).to.be('ac');
+        expect(pool.connection).to.be(null);
+      });
+    });
+
+  });
+
+  describe('reconnect', () => {
+
+    let policy: ConnectionPool.IReconnectPolicy;
+    let attempts: number[];
+    let refused: number;
+
+    beforeEach(() => {
+      policy = { enabled: true, interval: 10, maxInterval: 1000 };
+      attempts = [];
+      refused = 0;
+      pool.dispose();
+      pool = new ConnectionPool({
+        url: 'ws://test',
+        reconnect: policy,
+        createSocket: url => {
+          attempts.push(Date.now());
+          if (refused > 0) {
+            refused--;
+            return Private.refuse();
+          }
+          return server.createSocket(url);
+        }
+      });
+    });
+
+    it('should reconnect after the connection drops', () => {
+      let doc = pool.acquire('test', 'doc');
+      return Private.subscribe(doc).then(() => {
+        // ShareDB only reconnects after a close it did not ask for.
+        server.sockets[0].close('dropped');
+        expect(pool.state).to.be('disconnected');
+        return Private.state(pool, 'connected');
+      }).then(() => {
+        return Private.submit(writer, { p: ['text', 1], si: 'b' });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(attempts).to.have.length(2);
+        expect(doc.data.text).to.be('ab');
+      });
+    });
+
+    it('should back off exponentially while reconnecting fails', () => {
+      let doc = pool.acquire('test', 'doc');
+      let closed: number;
+      return Private.subscribe(doc).then(() => {
+        refused = 3;
+        closed = Date.now();
+        server.sockets[0].close('dropped');
+        return Private.state(pool, 'connected');
+      }).then(() => {
+        let gaps = Private.gaps([closed, ...attempts.slice(1)]);
+        expect(gaps).to.have.length(4);
+        // Timers may fire up to a millisecond early.
+        [10, 20, 40, 80].forEach((delay, i) => {
+          expect(gaps[i]).to.be.greaterThan(delay - 2);
+        });
+      });
+    });
+
+    it('should wait at most the maximum interval between attempts', () => {
+      policy.maxInterval = 25;
+      let doc = pool.acquire('test', 'doc');
+      let closed: number;
+      return Private.subscribe(doc).then(() => {
+        refused = 5;
+        closed = Date.now();
+        server.sockets[0].close('dropped');
+        return Private.state(pool, 'connected');
+      }).then(() => {
+        let gaps = Private.gaps([closed, ...attempts.slice(1)]);
+        expect(gaps).to.have.length(6);
+        // Without the cap, the last attempts would wait 80, 160 and 320 ms.
+        for (let gap of gaps.slice(2)) {
+          expect(gap).to.be.greaterThan(23);
+          expect(gap).to.be.lessThan(80);
+        }
+      });
+    });
+
+    it('should reset the backoff once reconnected', () => {
+      let doc = pool.acquire('test', 'doc');
+      let closed: number;
+      return Private.subscribe(doc).then(() => {
+        refused = 2;
+        server.sockets[0].close('dropped');
+        return Private.state(pool, 'connected');
+      }).then(() => {
+        attempts = [];
+        closed = Date.now();
+        server.sockets[server.sockets.length - 1].close('dropped');
+        return Private.state(pool, 'connected');
+      }).then(() => {
+        expect(attempts).to.have.length(1);
+        expect(attempts[0] - closed).to.be.lessThan(40);
+      });
+    });
+
+    it('should send the ops made while disconnected once reconnected', () => {
+      let doc = pool.acquire('test', 'doc');
+      let connected: Promise<void>;
+      return Private.subscribe(doc).then(() => {
+        refused = 1;
+        server.sockets[0].close('dropped');
+        connected = Private.state(pool, 'connected');
+        doc.submitOp({ p: ['text', 1], si: 'c' });
+        expect(doc.hasPending()).to.be(true);
+        return Private.submit(writer, { p: ['text', 1], si: 'b' });
+      }).then(() => {
+        return connected;
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        return Private.callback(done => { writer.fetch(done); });
+      }).then(() => {
+        expect(doc.hasPending()).to.be(false);
+        expect(doc.data.text).to.be(writer.data.text);
+        expect(['abc', 'acb']).to.contain(doc.data.text);
+      });
+    });
+
+    it('should hold the ops while the socket is paused', () => {
+      let doc = pool.acquire('test', 'doc');
+      let socket: TestSocket;
+      return Private.subscribe(doc).then(() => {
+        socket = server.sockets[0];
+        socket.pause();
+        doc.submitOp({ p: ['text', 1], si: 'c' });
+        return server.settle();
+      }).then(() => {
+        return Private.callback(done => { writer.fetch(done); });
+      }).then(() => {
+        expect(writer.data.text).to.be('a');
+        socket.resume();
+        return server.settle();
+      }).then(() => {
+        return Private.callback(done => { writer.fetch(done); });
+      }).then(() => {
+        expect(writer.data.text).to.be('ac');
+        expect(attempts).to.have.length(1);
+      });
+    });
+
+  });
+
+  describe('#forceReconnect()', () => {
+
+    it('should replace the socket', () => {
+      let doc = pool.acquire('test', 'doc');
+      return Private.subscribe(doc).then(() => {
+        pool.forceReconnect();
+        return Private.state(pool, 'connected');
+      }).then(() => {
+        return Private.submit(writer, { p: ['text', 1], si: 'b' });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(server.sockets).to.have.length(2);
+        expect(doc.data.text).to.be('ab');
+      });
+    });
+
+  });
+
+});
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Subscribe to a ShareDB document.
+   */
+  export
+  function subscribe(doc: any): Promise<void> {
+    return callback(done => { doc.subscribe(done); });
+  }
+
+  /**
+   * Submit an op to a ShareDB document.
+   */
+  export
+  function submit(doc: any, op: any): Promise<void> {
+    return callback(done => { doc.submitOp(op, done); });
+  }
+
+  /**
+   * Wrap a function taking a node-style callback in a promise.
+   */
+  export
+  function callback(fn: (done: (err?: any) => void) => void): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      fn(err => { err ? reject(err) : resolve(void 0); });
+    });
+  }
+
+  /**
+   * Wait for a connection pool to reach a state.
+   */
+  export
+  function state(pool: ConnectionPool, value: ConnectionPool.ConnectionState): Promise<void> {
+    return new Promise<void>(resolve => {
+      let onStateChanged = (sender: ConnectionPool, state: ConnectionPool.ConnectionState) => {
+        if (state === value) {
+          pool.stateChanged.disconnect(onStateChanged);
+          resolve(void 0);
+        }
+      };
+      pool.stateChanged.connect(onStateChanged);
+    });
+  }
+
+  /**
+   * Compute the time between consecutive events.
+   */
+  export
+  function gaps(times: number[]): number[] {
+    return times.slice(1).map((time, i) => time - times[i]);
+  }
+
+  /**
+   * Open a socket which fails to connect.
+   */
+  export
+  function refuse(): any {
+    let socket = {
+      readyState: 0,
+      send: () => { /* no-op */ },
+      close: () => { /* no-op */ },
+      onopen: () => { /* no-op */ },
+      onmessage: (event: any) => { /* no-op */ },
+      onclose: (reason: string) => { /* no-op */ },
+      onerror: (err: any) => { /* no-op */ }
+    };
+    setTimeout(() => {
+      socket.readyState = 3;
+      socket.onclose('refused');
+    }, 0);
+    return socket;
+  }
+}
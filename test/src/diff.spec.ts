@@ -0,0 +1,81 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  IReference, diff, isReference
+} from '../../src/diff';
+
+declare let require: any;
+let json0 = require('sharedb/lib/client').types.defaultType;
+
+
+describe('diff', () => {
+
+  it('should return no components for equal values', () => {
+    expect(diff({ a: [1, { b: 'c' }] }, { a: [1, { b: 'c' }] })).to.eql([]);
+  });
+
+  it('should update objects key by key', () => {
+    let ops = diff({ a: 1, b: 2 }, { b: 3, c: 4 }, ['x']);
+    expect(ops).to.eql([
+      { p: ['x', 'a'], od: 1 },
+      { p: ['x', 'b'], od: 2, oi: 3 },
+      { p: ['x', 'c'], oi: 4 }
+    ]);
+  });
+
+  it('should replace the differing items of lists as list items', () => {
+    let ops = diff([1, 2, 3], [1, 4]);
+    expect(ops).to.eql([
+      { p: [1], ld: 2, li: 4 },
+      { p: [2], ld: 3 }
+    ]);
+  });
+
+  it('should edit strings by their changed hunks, from last to first', () => {
+    let ops = diff('hello world', 'jello word', ['text']);
+    expect(ops).to.eql([
+      { p: ['text', 9], sd: 'l' },
+      { p: ['text', 0], sd: 'h' },
+      { p: ['text', 0], si: 'j' }
+    ]);
+  });
+
+  it('should produce components which turn one value into the other', () => {
+    let oldValue = { a: 'one two', b: [{ c: 1 }, 'x', 3], d: true };
+    let newValue = { a: 'one, two!', b: [{ c: 2, e: [1] }, 'y'], f: false };
+    let result = json0.apply(JSON.parse(JSON.stringify(oldValue)), diff(oldValue, newValue));
+    expect(result).to.eql(newValue);
+  });
+
+  it('should keep the root keys starting with `$`', () => {
+    let ops = diff({ $save: { requests: 1 }, a: 1 }, { a: 2 });
+    expect(ops).to.eql([{ p: ['a'], od: 1, oi: 2 }]);
+  });
+
+  it('should collect the data of separate views instead of replacing them', () => {
+    let references: IReference[] = [];
+    let current = { cells: [{ documentId: 'doc#cells.[0]' }], other: { documentId: 'other#x' } };
+    let next = { cells: [{ value: 'a' }], other: { value: 'b' } };
+    let ops = diff(current, next, [], { documentId: 'doc', references });
+    expect(references).to.eql([{ documentId: 'doc#cells.[0]', value: { value: 'a' } }]);
+    expect(ops).to.eql([
+      { p: ['other', 'documentId'], od: 'other#x' },
+      { p: ['other', 'value'], oi: 'b' }
+    ]);
+  });
+
+  describe('isReference()', () => {
+
+    it('should test whether a value refers to a separate view', () => {
+      expect(isReference({ documentId: 'doc#cell' })).to.be(true);
+      expect(isReference({ documentId: 'doc#cell' }, 'doc')).to.be(true);
+      expect(isReference({ documentId: 'doc#cell' }, 'other')).to.be(false);
+      expect(isReference({ documentId: 'doc#cell', value: 1 })).to.be(false);
+    });
+
+  });
+
+});
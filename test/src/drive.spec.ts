@@ -0,0 +1,36 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ShareDrive
+} from '../../src/drive';
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+
+describe('ShareDrive', () => {
+
+  describe('.documentId()', () => {
+
+    it('should drop the empty and `.` segments of paths', () => {
+      expect(ShareDrive.documentId('/analysis//./run.ipynb')).to.be('analysis/run.ipynb');
+    });
+
+    it('should escape `%` and `#`', () => {
+      expect(ShareDrive.documentId('issue#12.ipynb')).to.be('issue%2312.ipynb');
+      expect(ShareDrive.documentId('100%23.txt')).to.be('100%2523.txt');
+    });
+
+    it('should keep the document of a file apart from its views', () => {
+      let documentId = ShareDrive.documentId('issue#12.ipynb');
+      expect(ShareModelDB.baseId(`${documentId}#cells.a`)).to.be(documentId);
+      expect(ShareModelDB.baseId(documentId)).to.be(documentId);
+    });
+
+  });
+
+});
@@ -0,0 +1,281 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  toArray
+} from '@phosphor/algorithm';
+
+import {
+  IObservableList, IObservableString, IObservableUndoableList
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+import {
+  TestBackend, TestSocket
+} from './backend';
+
+import {
+  Random
+} from './random';
+
+declare let process: any;
+
+
+/**
+ * The number of seeds to run, unless `FUZZ_SEED` is given.
+ */
+const RUNS = Number(process.env.FUZZ_RUNS) || 10;
+
+/**
+ * The number of random steps in each run.
+ */
+const STEPS = Number(process.env.FUZZ_STEPS) || 80;
+
+
+describe('fuzz', () => {
+
+  let seeds: number[] = [];
+  if (process.env.FUZZ_SEED) {
+    seeds.push(Number(process.env.FUZZ_SEED));
+  } else {
+    for (let i = 1; i <= RUNS; i++) {
+      seeds.push(i);
+    }
+  }
+
+  for (let seed of seeds) {
+    it(`should converge for seed ${seed}`, function () {
+      this.timeout(20000);
+      return run(seed).catch(err => {
+        err.message = `${err.message}\n` +
+          `      Reproduce with: FUZZ_SEED=${seed} npm run fuzz`;
+        throw err;
+      });
+    });
+  }
+
+});
+
+
+/**
+ * A simulated client, with a list and a string which are edited
+ * at random, and replicas built by replaying their signals.
+ */
+class Client {
+  /**
+   * Construct a new client.
+   */
+  constructor(server: TestBackend, id: number) {
+    this.id = id;
+    this.modelDB = server.createModelDB('fuzz');
+    this.socket = server.sockets[server.sockets.length - 1];
+    this.list = this.modelDB.createList<string>('cells');
+    this.string = this.modelDB.createString('value');
+    this.list.changed.connect(this._onListChanged, this);
+    this.string.changed.connect(this._onStringChanged, this);
+  }
+
+  readonly id: number;
+  readonly modelDB: ShareModelDB;
+  readonly socket: TestSocket;
+  readonly list: IObservableUndoableList<string>;
+  readonly string: IObservableString;
+
+  /**
+   * The list built by replaying the `changed` signal of `list`.
+   */
+  listReplica: string[] = [];
+
+  /**
+   * The text built by replaying the `changed` signal of `string`.
+   */
+  stringReplica = '';
+
+  /**
+   * Make a random edit.
+   */
+  edit(random: Random, step: number): void {
+    let list = this.list;
+    let length = list.length;
+    let value = `${this.id}.${step}`;
+    switch (random.int(12)) {
+    case 0:
+      list.insert(random.int(length + 1), value);
+      break;
+    case 1:
+      if (length) {
+        list.remove(random.int(length));
+      }
+      break;
+    case 2:
+      if (length) {
+        list.set(random.int(length), value);
+      }
+      break;
+    case 3:
+      if (length) {
+        list.move(random.int(length), random.int(length));
+      }
+      break;
+    case 4:
+      list.pushAll([`${value}a`, `${value}b`]);
+      break;
+    case 5:
+      let start = random.int(length + 1);
+      list.removeRange(start, start + random.int(3));
+      break;
+    case 6:
+      if (list.canUndo) {
+        list.undo();
+      }
+      break;
+    case 7:
+      if (list.canRedo) {
+        list.redo();
+      }
+      break;
+    case 8:
+    case 9:
+      let text = this.string.text;
+      this.string.insert(random.int(text.length + 1), random.pick(['a', 'bc', '\n']));
+      break;
+    case 10:
+      let end = this.string.text.length;
+      let from = random.int(end + 1);
+      this.string.remove(from, Math.min(end, from + random.int(4)));
+      break;
+    default:
+      this.string.text = random.pick(['', 'reset', this.string.text + '!']);
+      break;
+    }
+  }
+
+  /**
+   * Replay a list change on the replica.
+   */
+  private _onListChanged(sender: IObservableList<string>, args: IObservableList.IChangedArgs<string>): void {
+    let replica = this.listReplica;
+    switch (args.type) {
+    case 'add':
+      replica.splice(args.newIndex, 0, ...args.newValues);
+      break;
+    case 'remove':
+      replica.splice(args.oldIndex, args.oldValues.length);
+      break;
+    case 'set':
+      replica.splice(args.newIndex, args.newValues.length, ...args.newValues);
+      break;
+    case 'move':
+      replica.splice(args.oldIndex, 1);
+      replica.splice(args.newIndex, 0, args.newValues[0]);
+      break;
+    default:
+      break;
+    }
+  }
+
+  /**
+   * Replay a string change on the replica.
+   */
+  private _onStringChanged(sender: IObservableString, args: IObservableString.IChangedArgs): void {
+    let replica = this.stringReplica;
+    switch (args.type) {
+    case 'insert':
+      this.stringReplica = replica.slice(0, args.start) + args.value + replica.slice(args.start);
+      break;
+    case 'remove':
+      this.stringReplica = replica.slice(0, args.start) + replica.slice(args.end);
+      break;
+    default:
+      this.stringReplica = args.value;
+      break;
+    }
+  }
+}
+
+
+/**
+ * Run the fuzzer for a seed.
+ *
+ * #### Notes
+ * Messages are delivered without delay, and concurrency comes from
+ * pausing and resuming the sockets of the clients, so that a seed
+ * always produces the same interleaving.
+ */
+function run(seed: number): Promise<void> {
+  let random = new Random(seed);
+  let server = new TestBackend();
+  let clients: Client[] = [];
+  let count = 2 + random.int(3);
+
+  // Connect the clients one after the other, so that
+  // the first one creates the document.
+  let connect: Promise<void> = Promise.resolve(void 0);
+  for (let i = 0; i < count; i++) {
+    connect = connect.then(() => {
+      let client = new Client(server, i);
+      clients.push(client);
+      return client.modelDB.connected;
+    });
+  }
+
+  let steps = connect.then(() => server.settle());
+  for (let step = 0; step < STEPS; step++) {
+    steps = steps.then(() => {
+      let client = random.pick(clients);
+      let roll = random.next();
+      if (roll < 0.1) {
+        if (client.socket.isPaused) {
+          client.socket.resume();
+        } else {
+          client.socket.pause();
+        }
+      } else if (roll < 0.15) {
+        return server.settle();
+      } else if (roll < 0.35) {
+        return Private.tick();
+      } else {
+        client.edit(random, step);
+      }
+      return undefined;
+    });
+  }
+
+  return steps.then(() => {
+    for (let client of clients) {
+      client.socket.resume();
+    }
+    return server.settle();
+  }).then(() => {
+    let list = toArray(clients[0].list.iter());
+    let text = clients[0].string.text;
+    for (let client of clients) {
+      let id = `client ${client.id}`;
+      expect([id, toArray(client.list.iter())]).to.eql([id, list]);
+      expect([id, client.listReplica]).to.eql([id, list]);
+      expect([id, client.string.text]).to.eql([id, text]);
+      expect([id, client.stringReplica]).to.eql([id, text]);
+    }
+  }).then(() => server.close(), err => {
+    return server.close().then(() => { throw err; });
+  });
+}
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Let the sockets deliver the messages which are due.
+   */
+  export
+  function tick(): Promise<void> {
+    return new Promise<void>(resolve => { setTimeout(resolve, 0); });
+  }
+}
@@ -0,0 +1,198 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  IObservableString
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareHistory
+} from '../../src/history';
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareHistory', () => {
+
+  let server: TestBackend;
+  let first: ShareModelDB;
+  let second: ShareModelDB;
+  let text: IObservableString;
+  let other: IObservableString;
+  let history: ShareHistory;
+  let recorder: any;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Record the history like the ShareDB server does.
+    recorder = server.backend.connect().get('test', ShareHistory.historyId('doc'));
+    first = server.createModelDB();
+    text = first.createString('text');
+    text.text = 'a';
+    return first.connected.then(() => {
+      second = server.createModelDB();
+      other = second.createString('text');
+      return second.connected;
+    }).then(() => {
+      return server.settle();
+    }).then(() => {
+      return Private.record(recorder, 'doc');
+    }).then(() => {
+      text.insert(1, 'b');
+      return server.settle();
+    }).then(() => {
+      return Private.record(recorder, 'doc');
+    }).then(() => {
+      history = new ShareHistory({ modelDB: second });
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    history.dispose();
+    return server.close();
+  });
+
+  describe('#entries', () => {
+
+    it('should list the recorded changes', () => {
+      expect(history.entries.map(entry => entry.version)).to.eql([0, 1]);
+    });
+
+    it('should follow the recorded changes', () => {
+      let changed = 0;
+      history.changed.connect(() => { changed++; });
+      text.insert(2, 'c');
+      return server.settle().then(() => {
+        return Private.record(recorder, 'doc');
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(history.entries.length).to.be(3);
+        expect(changed).to.be.greaterThan(0);
+      });
+    });
+
+  });
+
+  describe('#snapshot()', () => {
+
+    it('should fetch the data after each change', () => {
+      return history.snapshot(0).then(data => {
+        expect(data).to.eql({ text: 'a' });
+        return history.snapshot(1);
+      }).then(data => {
+        expect(data).to.eql({ text: 'ab' });
+      });
+    });
+
+    it('should include the data of separate views', () => {
+      let view = first.view('cell', true);
+      view.createString('value').text = 'separate';
+      return view.connected.then(() => server.settle()).then(() => {
+        return Private.record(recorder, 'doc#cell');
+      }).then(() => {
+        return Private.record(recorder, 'doc');
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        return history.snapshot(3);
+      }).then(data => {
+        expect(data).to.eql({ text: 'ab', cell: { value: 'separate' } });
+      });
+    });
+
+    it('should fetch each document at its version after the change', () => {
+      let view = first.view('cell', true);
+      let value = view.createString('value');
+      value.text = 'separate';
+      return view.connected.then(() => server.settle()).then(() => {
+        return Private.record(recorder, 'doc#cell');
+      }).then(() => {
+        return Private.record(recorder, 'doc');
+      }).then(() => {
+        value.text = 'changed';
+        text.insert(2, 'c');
+        return server.settle();
+      }).then(() => {
+        return history.snapshot(3);
+      }).then(data => {
+        expect(data).to.eql({ text: 'ab', cell: { value: 'separate' } });
+      });
+    });
+
+  });
+
+  describe('.historyId()', () => {
+
+    it('should be shared by the documents of a file', () => {
+      expect(ShareHistory.historyId('issue%2312.ipynb')).to.be('issue%2312.ipynb#$history');
+      expect(ShareHistory.historyId('issue%2312.ipynb#cells.a')).to.be('issue%2312.ipynb#$history');
+    });
+
+  });
+
+  describe('#restore()', () => {
+
+    it('should bring every client back to an earlier version', () => {
+      text.insert(2, 'c');
+      return server.settle().then(() => {
+        return history.restore(0);
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(text.text).to.be('a');
+        expect(other.text).to.be('a');
+      });
+    });
+
+  });
+
+});
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Record the latest change to a document in the history, as the
+   * ShareDB server does, and wait so that the following changes are
+   * at a later time.
+   */
+  export
+  function record(history: any, documentId: string): Promise<void> {
+    let doc = history.connection.get(history.collection, documentId);
+    return new Promise<void>((resolve, reject) => {
+      doc.fetch((err: any) => { err ? reject(err) : resolve(void 0); });
+    }).then(() => {
+      let entry = { documentId, version: doc.version - 1, time: Date.now(), author: null as any };
+      return new Promise<void>((resolve, reject) => {
+        let done = (err: any) => {
+          if (err) {
+            reject(err);
+          } else {
+            setTimeout(resolve, 5);
+          }
+        };
+        history.fetch((err: any) => {
+          if (err) {
+            reject(err);
+          } else if (!history.type) {
+            history.create({ entries: [entry] }, done);
+          } else {
+            history.submitOp({ p: ['entries', history.data.entries.length], li: entry }, done);
+          }
+        });
+      });
+    });
+  }
+}
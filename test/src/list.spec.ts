@@ -0,0 +1,145 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  toArray
+} from '@phosphor/algorithm';
+
+import {
+  IObservableList, IObservableUndoableList
+} from '@jupyterlab/coreutils';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareList', () => {
+
+  let server: TestBackend;
+  let first: IObservableUndoableList<string>;
+  let second: IObservableUndoableList<string>;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Connect the second client once the first has created the document.
+    let firstDB = server.createModelDB();
+    first = firstDB.createList<string>('cells');
+    return firstDB.connected.then(() => {
+      let secondDB = server.createModelDB();
+      second = secondDB.createList<string>('cells');
+      return secondDB.connected;
+    }).then(() => {
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  /**
+   * Test that the lists have converged, and return their values.
+   */
+  function converged(): string[] {
+    let values = toArray(first.iter());
+    expect(toArray(second.iter())).to.eql(values);
+    return values;
+  }
+
+  describe('#insert()', () => {
+
+    it('should converge after concurrent inserts', () => {
+      first.pushAll(['a', 'b']);
+      return server.settle().then(() => {
+        first.insert(1, 'x');
+        second.insert(1, 'y');
+        second.push('z');
+        return server.settle();
+      }).then(() => {
+        let values = converged();
+        expect(values.length).to.be(5);
+        expect(values[0]).to.be('a');
+        expect(values[4]).to.be('z');
+      });
+    });
+
+    it('should emit the remote inserts', () => {
+      let changes: IObservableList.IChangedArgs<string>[] = [];
+      second.changed.connect((sender, args) => { changes.push(args); });
+      first.pushAll(['a', 'b']);
+      return server.settle().then(() => {
+        expect(changes).to.eql([{
+          type: 'add', oldIndex: -1, newIndex: 0,
+          oldValues: [], newValues: ['a', 'b']
+        }]);
+      });
+    });
+
+  });
+
+  describe('#remove()', () => {
+
+    it('should converge after removing the same item', () => {
+      first.pushAll(['a', 'b', 'c']);
+      return server.settle().then(() => {
+        first.remove(1);
+        second.remove(1);
+        return server.settle();
+      }).then(() => {
+        expect(converged()).to.eql(['a', 'c']);
+      });
+    });
+
+  });
+
+  describe('#set()', () => {
+
+    it('should converge after concurrent sets and removes', () => {
+      first.pushAll(['a', 'b', 'c']);
+      return server.settle().then(() => {
+        first.set(2, 'C');
+        second.remove(0);
+        return server.settle();
+      }).then(() => {
+        expect(converged()).to.eql(['b', 'C']);
+      });
+    });
+
+  });
+
+  describe('#move()', () => {
+
+    it('should converge after concurrent moves and inserts', () => {
+      first.pushAll(['a', 'b', 'c']);
+      return server.settle().then(() => {
+        first.move(0, 2);
+        second.insert(0, 'x');
+        return server.settle();
+      }).then(() => {
+        let values = converged();
+        expect(values.slice().sort()).to.eql(['a', 'b', 'c', 'x']);
+        expect(values.indexOf('b')).to.be.lessThan(values.indexOf('a'));
+      });
+    });
+
+  });
+
+  describe('#clear()', () => {
+
+    it('should converge after a clear and a concurrent push', () => {
+      first.pushAll(['a', 'b']);
+      return server.settle().then(() => {
+        first.clear();
+        second.push('c');
+        return server.settle();
+      }).then(() => {
+        expect(converged()).to.eql(['c']);
+      });
+    });
+
+  });
+
+});
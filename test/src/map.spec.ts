@@ -0,0 +1,186 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  JSONValue
+} from '@phosphor/coreutils';
+
+import {
+  IObservableJSON, IObservableMap
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareMap
+} from '../../src/map';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareMap', () => {
+
+  let server: TestBackend;
+  let first: IObservableJSON;
+  let second: IObservableJSON;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Connect the second client once the first has created the document.
+    let firstDB = server.createModelDB();
+    first = firstDB.createMap('metadata');
+    return firstDB.connected.then(() => {
+      let secondDB = server.createModelDB();
+      second = secondDB.createMap('metadata');
+      return secondDB.connected;
+    }).then(() => {
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  describe('#connected', () => {
+
+    it('should write the local entries to a new document', () => {
+      let db = server.createModelDB('other');
+      let map = db.createMap('metadata');
+      map.set('a', 1);
+      return db.connected.then(() => {
+        return server.settle();
+      }).then(() => {
+        expect((map as ShareMap).value).to.eql({ a: 1 });
+        expect(map.get('a')).to.be(1);
+      });
+    });
+
+  });
+
+  describe('#set()', () => {
+
+    it('should share the entries with other clients', () => {
+      first.set('a', { b: [1, 2] });
+      return server.settle().then(() => {
+        expect(second.get('a')).to.eql({ b: [1, 2] });
+        expect(second.keys()).to.eql(['a']);
+      });
+    });
+
+    it('should converge after concurrent sets of the same key', () => {
+      first.set('a', 'first');
+      second.set('a', 'second');
+      return server.settle().then(() => {
+        expect(first.get('a')).to.eql(second.get('a'));
+        expect(['first', 'second']).to.contain(first.get('a'));
+      });
+    });
+
+    it('should keep concurrent sets of different keys', () => {
+      first.set('a', 1);
+      second.set('b', 2);
+      return server.settle().then(() => {
+        expect(first.toJSON()).to.eql({ a: 1, b: 2 });
+        expect(second.toJSON()).to.eql({ a: 1, b: 2 });
+      });
+    });
+
+    it('should emit the remote changes', () => {
+      let changes: IObservableMap.IChangedArgs<JSONValue>[] = [];
+      second.changed.connect((sender, args) => { changes.push(args); });
+      first.set('a', 1);
+      return server.settle().then(() => {
+        first.set('a', 2);
+        return server.settle();
+      }).then(() => {
+        expect(changes).to.eql([
+          { type: 'add', key: 'a', oldValue: undefined, newValue: 1 },
+          { type: 'change', key: 'a', oldValue: 1, newValue: 2 }
+        ]);
+      });
+    });
+
+    it('should emit the old value of nested remote changes', () => {
+      let changes: IObservableMap.IChangedArgs<JSONValue>[] = [];
+      first.set('a', { b: 1, c: ['x'] });
+      return server.settle().then(() => {
+        second.changed.connect((sender, args) => { changes.push(args); });
+        (first as ShareMap).doc.submitOp([
+          { p: ['metadata', 'a', 'b'], od: 1, oi: 2 },
+          { p: ['metadata', 'a', 'c', 1], li: 'y' }
+        ]);
+        return server.settle();
+      }).then(() => {
+        expect(changes).to.eql([{
+          type: 'change',
+          key: 'a',
+          oldValue: { b: 1, c: ['x'] },
+          newValue: { b: 2, c: ['x', 'y'] }
+        }]);
+      });
+    });
+
+  });
+
+  describe('#delete()', () => {
+
+    it('should remove the entry for every client', () => {
+      let changes: IObservableMap.IChangedArgs<JSONValue>[] = [];
+      first.set('a', 1);
+      return server.settle().then(() => {
+        second.changed.connect((sender, args) => { changes.push(args); });
+        expect(first.delete('a')).to.be(1);
+        return server.settle();
+      }).then(() => {
+        expect(second.has('a')).to.be(false);
+        expect(changes).to.eql([
+          { type: 'remove', key: 'a', oldValue: 1, newValue: undefined }
+        ]);
+      });
+    });
+
+    it('should converge after a concurrent set and delete', () => {
+      first.set('a', 1);
+      return server.settle().then(() => {
+        first.delete('a');
+        second.set('a', 2);
+        return server.settle();
+      }).then(() => {
+        expect(first.toJSON()).to.eql(second.toJSON());
+      });
+    });
+
+  });
+
+  describe('#clear()', () => {
+
+    it('should remove every entry for every client', () => {
+      first.set('a', 1);
+      first.set('b', 2);
+      return server.settle().then(() => {
+        second.clear();
+        return server.settle();
+      }).then(() => {
+        expect(first.size).to.be(0);
+        expect(second.size).to.be(0);
+      });
+    });
+
+    it('should keep the entries set concurrently', () => {
+      first.set('a', 1);
+      return server.settle().then(() => {
+        first.clear();
+        second.set('b', 2);
+        return server.settle();
+      }).then(() => {
+        expect(first.toJSON()).to.eql({ b: 2 });
+        expect(second.toJSON()).to.eql({ b: 2 });
+      });
+    });
+
+  });
+
+});
@@ -0,0 +1,411 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+import {
+  SharePath
+} from '../../src/path';
+
+import {
+  ShareString
+} from '../../src/string';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareModelDB', () => {
+
+  let server: TestBackend;
+  let first: ShareModelDB;
+  let second: ShareModelDB;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Connect the second client once the first has created the document.
+    first = server.createModelDB();
+    first.createList('cells');
+    return first.connected.then(() => {
+      second = server.createModelDB();
+      second.createList('cells');
+      return second.connected;
+    }).then(() => {
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  describe('#createValue()', () => {
+
+    it('should store a key containing dots as one key', () => {
+      let db = server.createModelDB('paths');
+      let path = SharePath.join('metadata', SharePath.escape('jupyter.widgets'));
+      db.createValue(path).set(1);
+      return db.connected.then(() => {
+        let other = server.createModelDB('paths');
+        let metadata = other.createValue('metadata');
+        return other.connected.then(() => server.settle()).then(() => {
+          expect(metadata.get()).to.eql({ 'jupyter.widgets': 1 });
+        });
+      });
+    });
+
+  });
+
+  describe('#opFailed', () => {
+
+    it('should roll back and report an op rejected by the server', () => {
+      let db = server.createModelDB('rejected');
+      let socket = server.sockets[server.sockets.length - 1];
+      let text = db.createString('text');
+      text.text = 'abc';
+      let failures: ShareModelDB.IOpFailedArgs[] = [];
+      let changes: string[] = [];
+      return db.connected.then(() => server.settle()).then(() => {
+        server.backend.use('submit', (request: any, next: (err?: any) => void) => {
+          let reject = request.op.op && request.op.op.some((op: any) => op.si === 'x');
+          next(reject ? { code: 4000, message: 'No x allowed' } : undefined);
+        });
+        db.opFailed.connect((sender, args) => { failures.push(args); });
+        text.changed.connect(() => { changes.push(text.text); });
+        // Insert again once the rejected op has been sent,
+        // so that it is not composed with it.
+        socket.pause();
+        text.insert(1, 'x');
+        return new Promise<void>(resolve => { setTimeout(resolve, 0); });
+      }).then(() => {
+        text.insert(0, 'y');
+        socket.resume();
+        return server.settle();
+      }).then(() => {
+        expect(text.text).to.be('yabc');
+        expect(changes).to.eql(['axbc', 'yaxbc', 'yabc']);
+        expect(failures.length).to.be(1);
+        expect(failures[0].error.message).to.be('No x allowed');
+        expect(failures[0].documentId).to.be('rejected');
+        expect(failures[0].path).to.eql(['text']);
+      });
+    });
+
+    it('should report the failed ops of views on the base', () => {
+      let failures: ShareModelDB.IOpFailedArgs[] = [];
+      first.opFailed.connect((sender, args) => { failures.push(args); });
+      server.backend.use('submit', (request: any, next: (err?: any) => void) => {
+        next({ code: 4000, message: 'Read only' });
+      });
+      first.view('cell').createValue('count').set(1);
+      first.view('other', true).createValue('count').set(1);
+      return server.settle().then(() => {
+        expect(failures.map(args => args.documentId).sort()).to.eql([
+          'doc', 'doc#other'
+        ]);
+      });
+    });
+
+    it('should report a rejected reference to a separate view', () => {
+      let failures: ShareModelDB.IOpFailedArgs[] = [];
+      first.opFailed.connect((sender, args) => { failures.push(args); });
+      server.backend.use('submit', (request: any, next: (err?: any) => void) => {
+        let reject = request.op.op && request.op.op.some((op: any) => op.oi && op.oi.documentId);
+        next(reject ? { code: 4000, message: 'No references' } : undefined);
+      });
+      first.view('other', true).createValue('count').set(1);
+      return server.settle().then(() => {
+        expect(failures.length).to.be(1);
+        expect(failures[0].error.message).to.be('No references');
+        expect(failures[0].documentId).to.be('doc');
+        expect(failures[0].path).to.be(null);
+      });
+    });
+
+    it('should switch over to the winner of a create without emitting ops', () => {
+      let firstDB = server.createModelDB('race');
+      let secondDB = server.createModelDB('race');
+      let firstStr = firstDB.createString('value');
+      let secondStr = secondDB.createString('value');
+      firstStr.text = 'first';
+      secondStr.text = 'second';
+      let batches = 0;
+      let changes = 0;
+      for (let str of [firstStr, secondStr]) {
+        (str as ShareString).doc.on('op batch', () => { batches++; });
+        str.changed.connect(() => { changes++; });
+      }
+      return Promise.all([firstDB.connected, secondDB.connected]).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(firstStr.text).to.be(secondStr.text);
+        expect(changes).to.be(1);
+        expect(batches).to.be(0);
+      });
+    });
+
+  });
+
+  describe('#collaborators', () => {
+
+    it('should tag the ops with the local collaborator', () => {
+      let tags: any[] = [];
+      server.backend.use('submit', (request: any, next: (err?: any) => void) => {
+        tags.push(request.extra);
+        next();
+      });
+      let before = Date.now();
+      first.createValue('count').set(1);
+      return server.settle().then(() => {
+        let { userId, displayName, color } = first.collaborators.localCollaborator;
+        expect(tags.length).to.be(1);
+        expect(tags[0].author).to.eql({ userId, displayName, color });
+        expect(tags[0].time).to.not.be.lessThan(before);
+      });
+    });
+
+  });
+
+  describe('#handlesRequests', () => {
+
+    it('should be false for a server which does not mark its documents', () => {
+      expect(first.handlesRequests).to.be(false);
+      expect(first.view('cells', true).handlesRequests).to.be(false);
+    });
+
+    it('should be true once the server has marked the document', () => {
+      // Mark the document like the ShareDB server does.
+      let doc = server.backend.connect().get('test', 'doc');
+      return new Promise<void>(resolve => {
+        doc.fetch(() => {
+          doc.submitOp({ p: ['$server'], oi: true }, () => { resolve(void 0); });
+        });
+      }).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(first.handlesRequests).to.be(true);
+        expect(second.view('cells', true).handlesRequests).to.be(true);
+      });
+    });
+
+  });
+
+  describe('#requestSave()', () => {
+
+    it('should resolve with the version saved by the server', () => {
+      // Respond to save requests like the ShareDB server does.
+      let responder = server.backend.connect();
+      server.backend.use('afterWrite', (context: any, next: (err?: any) => void) => {
+        next();
+        let op = context.op && context.op.op || [];
+        if (context.agent === responder.agent || !op.some((c: any) => c.p[0] === '$save')) {
+          return;
+        }
+        let doc = responder.get(context.collection, context.id);
+        doc.fetch(() => {
+          doc.submitOp({ p: ['$save', 'version'], oi: doc.version });
+        });
+      });
+      let before = first.version!;
+      return first.requestSave().then(version => {
+        expect(version).to.be.greaterThan(before);
+        return second.requestSave();
+      }).then(version => {
+        expect(version).to.be.greaterThan(before + 1);
+      });
+    });
+
+  });
+
+  describe('#documentMoved', () => {
+
+    it('should be emitted when the document is moved', () => {
+      let args: ShareModelDB.IDocumentMovedArgs[] = [];
+      second.documentMoved.connect((sender, moved) => { args.push(moved); });
+      return ShareModelDB.moveDocument(first.pool, 'test', 'doc', 'moved').then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(args).to.eql([{ documentId: 'doc', newDocumentId: 'moved' }]);
+      });
+    });
+
+    it('should be emitted when the document is deleted', () => {
+      let args: ShareModelDB.IDocumentMovedArgs[] = [];
+      first.view('cells').documentMoved.connect((sender, moved) => { args.push(moved); });
+      return ShareModelDB.moveDocument(second.pool, 'test', 'doc', null).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(args).to.eql([{ documentId: 'doc', newDocumentId: null }]);
+      });
+    });
+
+  });
+
+  describe('.moveDocument()', () => {
+
+    it('should move the data and the separate views', () => {
+      let view = first.view('notebook', false).view('cell', true);
+      view.createString('value').text = 'separate';
+      return view.connected.then(() => server.settle()).then(() => {
+        return ShareModelDB.moveDocument(first.pool, 'test', 'doc', 'moved');
+      }).then(() => {
+        let moved = server.createModelDB('moved');
+        let reference = moved.createValue('notebook');
+        let value = moved.view('notebook.cell', true).createString('value');
+        let cells = moved.createList('cells');
+        return moved.connected.then(() => server.settle()).then(() => {
+          expect(reference.get()).to.eql({
+            cell: { documentId: 'moved#notebook.cell' }
+          });
+          expect(value.text).to.be('separate');
+          expect(cells.length).to.be(0);
+          expect(moved.has('$moved')).to.be(false);
+        });
+      });
+    });
+
+  });
+
+  describe('.copyDocument()', () => {
+
+    it('should copy the data without moving the document', () => {
+      let moved = false;
+      let text = first.createString('text');
+      text.text = 'copied';
+      first.documentMoved.connect(() => { moved = true; });
+      return server.settle().then(() => {
+        return ShareModelDB.copyDocument(first.pool, 'test', 'doc', 'copy');
+      }).then(() => {
+        let copy = server.createModelDB('copy');
+        let value = copy.createString('text');
+        return copy.connected.then(() => server.settle()).then(() => {
+          expect(value.text).to.be('copied');
+          expect(moved).to.be(false);
+        });
+      });
+    });
+
+  });
+
+  describe('#view()', () => {
+
+    it('should resolve paths through views nested several levels deep', () => {
+      let db = server.createModelDB('paths');
+      let view = db.view('a').view(SharePath.escape('b.c')).view('0');
+      let value = view.createValue(SharePath.escape('d.e'));
+      value.set(1);
+      expect(view.fullPath('x')).to.be('a.b\\.c.0.x');
+      expect(db.get('a.b\\.c.0.d\\.e')).to.be(value);
+      return db.connected.then(() => {
+        let other = server.createModelDB('paths');
+        let root = other.createValue('a');
+        let nested = other.view('a.b\\.c').view('0').createValue('d\\.e');
+        return other.connected.then(() => server.settle()).then(() => {
+          expect(root.get()).to.eql({ 'b.c': { '0': { 'd.e': 1 } } });
+          expect(nested.get()).to.be(1);
+        });
+      });
+    });
+
+    it('should store a separate view in its own document', () => {
+      let view = first.view('cell', true);
+      view.createString('value').text = 'separate';
+      return view.connected.then(() => server.settle()).then(() => {
+        expect(view.documentId).to.be('doc#cell');
+        expect(view.get('value')).to.be.ok();
+        expect(first.has('cell.value')).to.be(false);
+        let other = second.view('cell', true);
+        let value = other.createString('value');
+        return other.connected.then(() => server.settle()).then(() => {
+          expect(value.text).to.be('separate');
+        });
+      });
+    });
+
+    it('should only load a separate view once it is used', () => {
+      let view = first.view('cell', true);
+      return server.settle().then(() => {
+        expect(view.version).to.be(null);
+        view.createValue('count').set(1);
+        return view.connected;
+      }).then(() => {
+        expect(view.version).to.not.be(null);
+      });
+    });
+
+    it('should reference a separate view from the base document', () => {
+      let view = first.view('notebook', false).view('cell', true);
+      view.createValue('count').set(1);
+      return view.connected.then(() => server.settle()).then(() => {
+        let reference = second.createValue('notebook');
+        return server.settle().then(() => {
+          expect(reference.get()).to.eql({
+            cell: { documentId: 'doc#notebook.cell' }
+          });
+        });
+      });
+    });
+
+    it('should default to the separateViews option', () => {
+      let pool = first.pool;
+      let db = new ShareModelDB({
+        pool, collection: 'test', documentId: 'other', separateViews: ['cells']
+      });
+      let cells = db.view('cells');
+      expect(cells.documentId).to.be('other');
+      expect(cells.view('a').documentId).to.be('other#cells.a');
+      expect(cells.view('a').view('outputs').documentId).to.be('other#cells.a');
+      expect(db.view('cells.b').documentId).to.be('other#cells.b');
+      expect(db.view('metadata').documentId).to.be('other');
+      db.dispose();
+    });
+
+    it('should store each cell of a notebook in its own document', () => {
+      let dbs: ShareModelDB[] = [];
+      let createCells = () => {
+        let db = new ShareModelDB({
+          pool: first.pool, collection: 'test', documentId: 'notebook', separateViews: ['cells']
+        });
+        dbs.push(db);
+        // Lay out the cells like the notebook model does.
+        let cells = db.view('cells');
+        return ['a', 'b'].map(id => cells.view(id).createString('value'));
+      };
+      let [a, b] = createCells();
+      a.text = 'first';
+      b.text = 'second';
+      let reader = server.backend.connect();
+      let base = reader.get('test', 'notebook');
+      let cell = reader.get('test', 'notebook#cells.a');
+      return server.settle().then(() => {
+        let [otherA, otherB] = createCells();
+        return server.settle().then(() => {
+          expect(otherA.text).to.be('first');
+          expect(otherB.text).to.be('second');
+        });
+      }).then(() => {
+        return new Promise<void>((resolve, reject) => {
+          base.fetch((err: any) => { err ? reject(err) : resolve(void 0); });
+        });
+      }).then(() => {
+        return new Promise<void>((resolve, reject) => {
+          cell.fetch((err: any) => { err ? reject(err) : resolve(void 0); });
+        });
+      }).then(() => {
+        expect(base.data.cells).to.eql({
+          a: { documentId: 'notebook#cells.a' },
+          b: { documentId: 'notebook#cells.b' }
+        });
+        expect(cell.data).to.eql({ value: 'first' });
+        dbs.forEach(db => { db.dispose(); });
+      });
+    });
+
+  });
+
+});
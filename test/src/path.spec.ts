@@ -0,0 +1,87 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  SharePath
+} from '../../src/path';
+
+
+describe('SharePath', () => {
+
+  describe('.escape()', () => {
+
+    it('should escape dots and backslashes', () => {
+      expect(SharePath.escape('jupyter.widgets')).to.be('jupyter\\.widgets');
+      expect(SharePath.escape('a\\b')).to.be('a\\\\b');
+    });
+
+    it('should escape a key which looks like a list index', () => {
+      expect(SharePath.escape('[0]')).to.be('\\[0]');
+    });
+
+  });
+
+  describe('.format()', () => {
+
+    it('should join the segments with dots', () => {
+      expect(SharePath.format(['cells', 'value'])).to.be('cells.value');
+    });
+
+    it('should write list indices in brackets', () => {
+      expect(SharePath.format(['cells', 2, 'source'])).to.be('cells.[2].source');
+    });
+
+  });
+
+  describe('.parse()', () => {
+
+    it('should split a path at unescaped dots', () => {
+      expect(SharePath.parse('metadata.jupyter\\.widgets')).to.eql([
+        'metadata', 'jupyter.widgets'
+      ]);
+    });
+
+    it('should parse list indices as numbers', () => {
+      expect(SharePath.parse('cells.[2].source')).to.eql(['cells', 2, 'source']);
+    });
+
+    it('should keep numeric keys as object keys', () => {
+      expect(SharePath.parse('outputs.0')).to.eql(['outputs', '0']);
+    });
+
+    it('should parse the empty path as no segments', () => {
+      expect(SharePath.parse('')).to.eql([]);
+    });
+
+    it('should keep empty segments', () => {
+      expect(SharePath.parse('a..b')).to.eql(['a', '', 'b']);
+    });
+
+    it('should round-trip through format', () => {
+      let paths: Array<Array<string | number>> = [
+        ['a.b', 'c\\', '[1]', 1, '', '1', 'd\\.e', '.'],
+        ['[', ']', '[x]', 0],
+        ['\\']
+      ];
+      for (let path of paths) {
+        expect(SharePath.parse(SharePath.format(path))).to.eql(path);
+      }
+    });
+
+  });
+
+  describe('.join()', () => {
+
+    it('should join paths with dots', () => {
+      expect(SharePath.join('a', 'b\\.c', 'd')).to.be('a.b\\.c.d');
+    });
+
+    it('should skip empty paths', () => {
+      expect(SharePath.join('', 'a', '')).to.be('a');
+    });
+
+  });
+
+});
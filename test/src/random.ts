@@ -0,0 +1,54 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+
+/**
+ * A seeded pseudo-random number generator, so that
+ * randomized tests can be reproduced from their seed.
+ *
+ * #### Notes
+ * This uses the mulberry32 algorithm.
+ */
+export
+class Random {
+  /**
+   * Construct a new generator.
+   *
+   * @param seed - the seed of the sequence.
+   */
+  constructor(seed: number) {
+    this.seed = seed;
+    this._state = seed >>> 0;
+  }
+
+  /**
+   * The seed of the sequence.
+   */
+  readonly seed: number;
+
+  /**
+   * Get the next number in `[0, 1)`.
+   */
+  next = (): number => {
+    let t = this._state = (this._state + 0x6D2B79F5) >>> 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a random integer in `[0, n)`.
+   */
+  int(n: number): number {
+    return Math.floor(this.next() * n);
+  }
+
+  /**
+   * Pick a random item of an array.
+   */
+  pick<T>(items: ReadonlyArray<T>): T {
+    return items[this.int(items.length)];
+  }
+
+  private _state: number;
+}
@@ -0,0 +1,201 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  CodeEditor
+} from '@jupyterlab/codeeditor';
+
+import {
+  IObservableJSON, IObservableString
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareModelDB
+} from '../../src/modeldb';
+
+import {
+  ShareString
+} from '../../src/string';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareSelections', () => {
+
+  let server: TestBackend;
+  let firstDB: ShareModelDB;
+  let firstText: IObservableString;
+  let first: IObservableJSON;
+  let secondText: IObservableString;
+  let second: IObservableJSON;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    firstDB = server.createModelDB();
+    firstText = firstDB.createString('value');
+    first = firstDB.createMap('selections');
+    firstText.text = 'hello world\nsecond line';
+    return firstDB.connected.then(() => {
+      let secondDB = server.createModelDB();
+      secondText = secondDB.createString('value');
+      second = secondDB.createMap('selections');
+      return secondDB.connected;
+    }).then(() => {
+      return server.settle();
+    }).then(() => {
+      // Select "o wor" in the first client.
+      first.set('editor', [Private.selection(0, 4, 0, 9)]);
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  /**
+   * Get the remote selection of the first client in the second one.
+   */
+  function remote(): number[] {
+    let id = firstDB.collaborators.localCollaborator.sessionId;
+    let selections = second.get(id) as any as CodeEditor.ITextSelection[];
+    expect(selections).to.have.length(1);
+    let { start, end } = selections[0];
+    return [start.line, start.column, end.line, end.column];
+  }
+
+  describe('#constructor()', () => {
+
+    it('should show the selections of remote collaborators', () => {
+      expect(remote()).to.eql([0, 4, 0, 9]);
+      let id = firstDB.collaborators.localCollaborator.sessionId;
+      let selection = (second.get(id) as any)[0];
+      expect(selection.uuid).to.be(id);
+      expect(selection.style.color).to.be(firstDB.collaborators.localCollaborator.color);
+    });
+
+    it('should not store the selections in the document', () => {
+      expect((firstText as ShareString).doc.data).to.only.have.key('value');
+    });
+
+    it('should withdraw the selections when they are removed', () => {
+      first.delete('editor');
+      return server.settle().then(() => {
+        expect(second.keys()).to.eql([]);
+      });
+    });
+
+  });
+
+  describe('insert', () => {
+
+    it('should move a selection after the inserted text', () => {
+      secondText.insert(2, 'xyz');
+      expect(remote()).to.eql([0, 7, 0, 12]);
+    });
+
+    it('should move a selection past inserted lines', () => {
+      secondText.insert(0, 'one\ntwo\n');
+      expect(remote()).to.eql([2, 4, 2, 9]);
+    });
+
+    it('should extend a selection around the inserted text', () => {
+      secondText.insert(6, 'xyz');
+      expect(remote()).to.eql([0, 4, 0, 12]);
+    });
+
+    it('should keep a selection before the inserted text', () => {
+      secondText.insert(15, 'xyz');
+      expect(remote()).to.eql([0, 4, 0, 9]);
+    });
+
+    it('should keep a selection ending where the text is inserted', () => {
+      secondText.insert(9, 'xyz');
+      expect(remote()).to.eql([0, 4, 0, 9]);
+    });
+
+    it('should move a selection through remote inserts', () => {
+      let other = server.createModelDB();
+      let text = other.createString('value');
+      return other.connected.then(() => {
+        return server.settle();
+      }).then(() => {
+        text.insert(0, 'xy');
+        return server.settle();
+      }).then(() => {
+        expect(secondText.text).to.be('xyhello world\nsecond line');
+        expect(remote()).to.eql([0, 6, 0, 11]);
+      });
+    });
+
+  });
+
+  describe('remove', () => {
+
+    it('should move a selection after the removed text', () => {
+      secondText.remove(0, 2);
+      expect(remote()).to.eql([0, 2, 0, 7]);
+    });
+
+    it('should shrink a selection around the removed text', () => {
+      secondText.remove(5, 7);
+      expect(remote()).to.eql([0, 4, 0, 7]);
+    });
+
+    it('should keep a selection before the removed text', () => {
+      secondText.remove(12, 18);
+      expect(remote()).to.eql([0, 4, 0, 9]);
+    });
+
+    it('should clip a selection overlapping the removed text', () => {
+      secondText.remove(2, 6);
+      expect(remote()).to.eql([0, 2, 0, 5]);
+      secondText.remove(4, 8);
+      expect(remote()).to.eql([0, 2, 0, 4]);
+    });
+
+    it('should collapse a selection inside the removed text', () => {
+      secondText.remove(3, 14);
+      expect(remote()).to.eql([0, 3, 0, 3]);
+    });
+
+    it('should move a selection through remote removes', () => {
+      let other = server.createModelDB();
+      let text = other.createString('value');
+      return other.connected.then(() => {
+        return server.settle();
+      }).then(() => {
+        text.remove(0, 3);
+        return server.settle();
+      }).then(() => {
+        expect(secondText.text).to.be('lo world\nsecond line');
+        expect(remote()).to.eql([0, 1, 0, 6]);
+      });
+    });
+
+  });
+
+});
+
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Create an editor selection.
+   */
+  export
+  function selection(startLine: number, startColumn: number, endLine: number, endColumn: number): CodeEditor.ITextSelection {
+    return {
+      uuid: 'editor',
+      start: { line: startLine, column: startColumn },
+      end: { line: endLine, column: endColumn },
+      style: { className: '', displayName: '', color: '' }
+    };
+  }
+}
@@ -0,0 +1,190 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  IObservableString
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareString
+} from '../../src/string';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareString', () => {
+
+  let server: TestBackend;
+  let first: IObservableString;
+  let second: IObservableString;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Connect the second client once the first has created the document.
+    let firstDB = server.createModelDB();
+    first = firstDB.createString('value');
+    return firstDB.connected.then(() => {
+      let secondDB = server.createModelDB();
+      second = secondDB.createString('value');
+      return secondDB.connected;
+    }).then(() => {
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  describe('#connected', () => {
+
+    it('should write the local text to a new document', () => {
+      let db = server.createModelDB('other');
+      let str = db.createString('value');
+      str.text = 'local';
+      return db.connected.then(() => {
+        return server.settle();
+      }).then(() => {
+        expect((str as ShareString).value).to.be('local');
+        expect(str.text).to.be('local');
+      });
+    });
+
+    it('should adopt the text of the client which created the document', () => {
+      let firstDB = server.createModelDB('race');
+      let secondDB = server.createModelDB('race');
+      let firstStr = firstDB.createString('value');
+      let secondStr = secondDB.createString('value');
+      firstStr.text = 'first';
+      secondStr.text = 'second';
+      return Promise.all([firstDB.connected, secondDB.connected]).then(() => {
+        return server.settle();
+      }).then(() => {
+        expect(firstStr.text).to.be(secondStr.text);
+        expect(['first', 'second']).to.contain(firstStr.text);
+        expect(firstDB.isPrepopulated && secondDB.isPrepopulated).to.be(false);
+      });
+    });
+
+    it('should load the text of an existing document', () => {
+      first.text = 'shared';
+      return server.settle().then(() => {
+        let db = server.createModelDB();
+        let str = db.createString('value');
+        return db.connected.then(() => str);
+      }).then(str => {
+        expect(str.text).to.be('shared');
+      });
+    });
+
+  });
+
+  describe('#insert()', () => {
+
+    it('should converge after concurrent inserts', () => {
+      first.text = 'abc';
+      return server.settle().then(() => {
+        first.insert(1, 'X');
+        second.insert(2, 'Y');
+        first.insert(0, 'Z');
+        return server.settle();
+      }).then(() => {
+        expect(first.text).to.be(second.text);
+        expect(first.text).to.be('ZaXbYc');
+      });
+    });
+
+    it('should converge after edits made while the network is stalled', () => {
+      first.text = 'abc';
+      return server.settle().then(() => {
+        let socket = server.sockets[0];
+        socket.pause();
+        first.insert(3, 'd');
+        first.insert(0, '1');
+        second.insert(1, 'x');
+        return server.settle().then(() => {
+          expect(second.text).to.be('axbc');
+          socket.resume();
+          return server.settle();
+        });
+      }).then(() => {
+        expect(first.text).to.be(second.text);
+        expect(first.text).to.be('1axbcd');
+      });
+    });
+
+    it('should emit the remote inserts', () => {
+      let changes: IObservableString.IChangedArgs[] = [];
+      second.changed.connect((sender, args) => { changes.push(args); });
+      first.insert(0, 'hi');
+      return server.settle().then(() => {
+        expect(changes).to.eql([{
+          type: 'insert', start: 0, end: 2, value: 'hi'
+        }]);
+      });
+    });
+
+  });
+
+  describe('#remove()', () => {
+
+    it('should converge after overlapping removes', () => {
+      first.text = 'abcdef';
+      return server.settle().then(() => {
+        first.remove(1, 4);
+        second.remove(2, 5);
+        second.insert(0, '>');
+        return server.settle();
+      }).then(() => {
+        expect(first.text).to.be(second.text);
+        expect(first.text).to.be('>af');
+      });
+    });
+
+  });
+
+  describe('#text', () => {
+
+    it('should keep concurrent edits to other parts of the string', () => {
+      first.text = 'def f(x):\n    return x\n';
+      return server.settle().then(() => {
+        first.text = 'def f(x):\n    return 2 * x\n';
+        second.insert(0, '# doubled\n');
+        return server.settle();
+      }).then(() => {
+        expect(first.text).to.be(second.text);
+        expect(first.text).to.be('# doubled\ndef f(x):\n    return 2 * x\n');
+      });
+    });
+
+    it('should only emit the parts which changed', () => {
+      let changes: IObservableString.IChangedArgs[] = [];
+      first.text = 'one two three';
+      return server.settle().then(() => {
+        second.changed.connect((sender, args) => { changes.push(args); });
+        first.text = 'one 2 three';
+        return server.settle();
+      }).then(() => {
+        expect(second.text).to.be('one 2 three');
+        expect(changes).to.eql([
+          { type: 'remove', start: 4, end: 7, value: 'two' },
+          { type: 'insert', start: 4, end: 5, value: '2' }
+        ]);
+      });
+    });
+
+    it('should converge after concurrent edits and a reset', () => {
+      first.text = 'one';
+      second.insert(0, 'two');
+      return server.settle().then(() => {
+        expect(first.text).to.be(second.text);
+      });
+    });
+
+  });
+
+});
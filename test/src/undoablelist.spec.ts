@@ -0,0 +1,111 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  toArray
+} from '@phosphor/algorithm';
+
+import {
+  IObservableUndoableList
+} from '@jupyterlab/coreutils';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareUndoableList', () => {
+
+  let server: TestBackend;
+  let first: IObservableUndoableList<string>;
+  let second: IObservableUndoableList<string>;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Connect the second client once the first has created the document.
+    let firstDB = server.createModelDB();
+    first = firstDB.createList<string>('cells');
+    return firstDB.connected.then(() => {
+      let secondDB = server.createModelDB();
+      second = secondDB.createList<string>('cells');
+      return secondDB.connected;
+    }).then(() => {
+      first.pushAll(['a', 'b']);
+      return server.settle();
+    }).then(() => {
+      first.clearUndo();
+      second.clearUndo();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  describe('#canUndo', () => {
+
+    it('should not be affected by remote changes', () => {
+      first.push('c');
+      return server.settle().then(() => {
+        expect(first.canUndo).to.be(true);
+        expect(second.canUndo).to.be(false);
+      });
+    });
+
+  });
+
+  describe('#undo()', () => {
+
+    it('should only undo local changes', () => {
+      first.insert(0, 'x');
+      return server.settle().then(() => {
+        second.insert(0, 'y');
+        return server.settle();
+      }).then(() => {
+        first.undo();
+        return server.settle();
+      }).then(() => {
+        expect(toArray(first.iter())).to.eql(['y', 'a', 'b']);
+        expect(toArray(second.iter())).to.eql(['y', 'a', 'b']);
+      });
+    });
+
+    it('should converge when undoing concurrently with remote edits', () => {
+      first.insert(1, 'x');
+      return server.settle().then(() => {
+        first.undo();
+        second.remove(0);
+        second.push('z');
+        return server.settle();
+      }).then(() => {
+        expect(toArray(first.iter())).to.eql(['b', 'z']);
+        expect(toArray(second.iter())).to.eql(['b', 'z']);
+      });
+    });
+
+  });
+
+  describe('#redo()', () => {
+
+    it('should redo an undone change after remote edits', () => {
+      first.remove(1);
+      return server.settle().then(() => {
+        first.undo();
+        return server.settle();
+      }).then(() => {
+        second.insert(0, 'y');
+        return server.settle();
+      }).then(() => {
+        first.redo();
+        return server.settle();
+      }).then(() => {
+        expect(toArray(first.iter())).to.eql(['y', 'a']);
+        expect(toArray(second.iter())).to.eql(['y', 'a']);
+      });
+    });
+
+  });
+
+});
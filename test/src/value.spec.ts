@@ -0,0 +1,130 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  IObservableValue, ObservableValue
+} from '@jupyterlab/coreutils';
+
+import {
+  ShareValue
+} from '../../src/value';
+
+import {
+  TestBackend
+} from './backend';
+
+
+describe('ShareValue', () => {
+
+  let server: TestBackend;
+  let first: IObservableValue;
+  let second: IObservableValue;
+
+  beforeEach(() => {
+    server = new TestBackend({ latency: 1, jitter: 10 });
+    // Connect the second client once the first has created the document.
+    let firstDB = server.createModelDB();
+    first = firstDB.createValue('value');
+    return firstDB.connected.then(() => {
+      let secondDB = server.createModelDB();
+      second = secondDB.createValue('value');
+      return secondDB.connected;
+    }).then(() => {
+      return server.settle();
+    });
+  });
+
+  afterEach(() => {
+    return server.close();
+  });
+
+  describe('#set()', () => {
+
+    it('should share the value with other clients', () => {
+      first.set({ a: [1, 2] });
+      return server.settle().then(() => {
+        expect(second.get()).to.eql({ a: [1, 2] });
+      });
+    });
+
+    it('should converge after concurrent sets', () => {
+      first.set('first');
+      second.set('second');
+      return server.settle().then(() => {
+        expect(first.get()).to.eql(second.get());
+        expect(['first', 'second']).to.contain(first.get());
+      });
+    });
+
+    it('should emit the remote changes', () => {
+      let changes: ObservableValue.IChangedArgs[] = [];
+      second.changed.connect((sender, args) => { changes.push(args); });
+      first.set(1);
+      return server.settle().then(() => {
+        first.set(2);
+        return server.settle();
+      }).then(() => {
+        expect(changes).to.eql([
+          { oldValue: null, newValue: 1 },
+          { oldValue: 1, newValue: 2 }
+        ]);
+      });
+    });
+
+    it('should keep concurrent edits to different parts of a value', () => {
+      first.set({ a: 1, b: [1, 2] });
+      return server.settle().then(() => {
+        first.set({ a: 2, b: [1, 2] });
+        second.set({ a: 1, b: [1, 2, 3] });
+        return server.settle();
+      }).then(() => {
+        expect(first.get()).to.eql({ a: 2, b: [1, 2, 3] });
+        expect(second.get()).to.eql({ a: 2, b: [1, 2, 3] });
+      });
+    });
+
+    it('should replace the differing items of arrays as list items', () => {
+      let ops: any[] = [];
+      first.set(['a', 'b', { c: 1 }]);
+      return server.settle().then(() => {
+        (first as ShareValue).doc.on('op', (op: any) => { ops.push(...op); });
+        first.set(['a', 'x', { c: 2 }]);
+        expect(ops).to.eql([
+          { p: ['value', 1], ld: 'b', li: 'x' },
+          { p: ['value', 2, 'c'], od: 1, oi: 2 }
+        ]);
+      });
+    });
+
+    it('should keep a replaced item of an array through concurrent inserts', () => {
+      first.set(['a', 'b']);
+      return server.settle().then(() => {
+        first.set(['a', 'x']);
+        (second as ShareValue).doc.submitOp({ p: ['value', 0], li: 'z' });
+        return server.settle();
+      }).then(() => {
+        expect(first.get()).to.eql(['z', 'a', 'x']);
+        expect(second.get()).to.eql(['z', 'a', 'x']);
+      });
+    });
+
+    it('should emit the whole value for nested remote changes', () => {
+      let changes: ObservableValue.IChangedArgs[] = [];
+      first.set({ a: { b: 1 }, c: ['x'] });
+      return server.settle().then(() => {
+        second.changed.connect((sender, args) => { changes.push(args); });
+        first.set({ a: { b: 2 }, c: ['x', 'y'] });
+        return server.settle();
+      }).then(() => {
+        expect(changes).to.eql([{
+          oldValue: { a: { b: 1 }, c: ['x'] },
+          newValue: { a: { b: 2 }, c: ['x', 'y'] }
+        }]);
+      });
+    });
+
+  });
+
+});